@@ -1,6 +1,11 @@
 import type { NextConfig } from "next";
+import { version } from "./package.json";
 
 const nextConfig: NextConfig = {
+  // Recorded in export manifests
+  env: {
+    APP_VERSION: version,
+  },
   eslint: {
     ignoreDuringBuilds: true,
   },
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { describeSchemas } from '@/lib/schema';
 
 // Initialize OpenAI client only if API key is available
 let openai: any = null;
@@ -47,9 +48,7 @@ export async function POST(request: NextRequest) {
     const systemPrompt = `You are an AI assistant that helps users search and analyze data about clients, workers, and tasks. 
 
 The data structure includes:
-- Clients: ClientID, ClientName, ClientGroup, PriorityLevel, RequestedTaskIDs, PreferredPhases, MaxBudget, AttributesJSON
-- Workers: WorkerID, WorkerName, WorkerGroup, Skills, AvailableSlots, MaxLoadPerPhase, HourlyRate, AttributesJSON  
-- Tasks: TaskID, TaskName, Duration, RequiredSkills, PreferredPhases, PriorityLevel, Dependencies, MaxConcurrent, AttributesJSON
+${describeSchemas()}
 
 Current data summary: ${dataSummary.clients} clients, ${dataSummary.workers} workers, ${dataSummary.tasks} tasks.
 
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import OpenAI from 'openai';
+import { EntityCollection } from '@/types/data';
+import { COLLECTIONS, ENTITY_SCHEMAS } from '@/lib/schema';
+import { HeaderMappingSuggestion, suggestMapping } from '@/lib/headerMapping';
+import { RawRow } from '@/lib/fileParsing';
+
+// Initialize OpenAI client only if API key is available
+const openai = process.env.OPENAI_API_KEY
+  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  : null;
+
+const MAX_SAMPLE_ROWS = 5;
+
+const describeFields = (collection: EntityCollection) =>
+  ENTITY_SCHEMAS[collection].fields
+    .map(field => `- ${field.name} (${field.type}${field.required ? ', required' : ''}): ${field.description}`)
+    .join('\n');
+
+// Keeps only well-formed suggestions for known headers and fields, each field
+// used once, and falls back to the heuristic for any header the model skipped
+const sanitizeSuggestions = (
+  raw: unknown,
+  headers: string[],
+  fallback: HeaderMappingSuggestion[],
+  collection: EntityCollection
+): HeaderMappingSuggestion[] => {
+  const fieldNames = new Set(ENTITY_SCHEMAS[collection].fields.map(field => field.name));
+  const byHeader = new Map<string, HeaderMappingSuggestion>();
+  const usedTargets = new Set<string>();
+
+  (Array.isArray(raw) ? raw : []).forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const { header, target, confidence, rationale } = item as Record<string, unknown>;
+    if (typeof header !== 'string' || !headers.includes(header) || byHeader.has(header)) return;
+    const validTarget = typeof target === 'string' && fieldNames.has(target) && !usedTargets.has(target) ? target : null;
+    if (validTarget) usedTargets.add(validTarget);
+    byHeader.set(header, {
+      header,
+      target: validTarget,
+      confidence: typeof confidence === 'number' ? Math.min(1, Math.max(0, confidence)) : 0.5,
+      rationale: typeof rationale === 'string' ? rationale : ''
+    });
+  });
+
+  return headers.map(header => {
+    const suggestion = byHeader.get(header);
+    if (suggestion) return suggestion;
+    const heuristic = fallback.find(s => s.header === header);
+    const target = heuristic?.target && !usedTargets.has(heuristic.target) ? heuristic.target : null;
+    if (target) usedTargets.add(target);
+    return { header, target, confidence: target ? heuristic?.confidence ?? 0 : 0, rationale: heuristic?.rationale || '' };
+  });
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const { collection, headers, sampleRows }: {
+      collection: EntityCollection;
+      headers: string[];
+      sampleRows?: RawRow[];
+    } = await request.json();
+
+    if (!COLLECTIONS.includes(collection) || !Array.isArray(headers) || !headers.every(header => typeof header === 'string')) {
+      return NextResponse.json(
+        { error: 'collection and headers (a list of strings) are required' },
+        { status: 400 }
+      );
+    }
+
+    const rows: RawRow[] = Array.isArray(sampleRows) ? sampleRows.slice(0, MAX_SAMPLE_ROWS) : [];
+    const heuristic = suggestMapping(headers, rows, collection);
+
+    if (!openai) {
+      return NextResponse.json({ suggestions: heuristic, source: 'heuristic' });
+    }
+
+    const systemPrompt = `You map spreadsheet columns onto a fixed data model for ${ENTITY_SCHEMAS[collection].label.toLowerCase()}.
+
+Target fields:
+${describeFields(collection)}
+
+Respond with a JSON object only:
+{
+  "mappings": [
+    { "header": "source header exactly as given", "target": "field name or null", "confidence": number between 0 and 1, "rationale": "one short sentence" }
+  ]
+}
+
+Map each field to at most one header. Use null when no field fits.`;
+
+    const userPrompt = `Source headers: ${JSON.stringify(headers)}
+
+Sample rows:
+${JSON.stringify(rows, null, 2)}`;
+
+    // A failed request (network, auth, rate limit) or unusable model output
+    // still answers with the heuristic
+    try {
+      const completion = await openai.chat.completions.create({
+        model: "gpt-3.5-turbo",
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt }
+        ],
+        temperature: 0,
+        max_tokens: 1000,
+      });
+
+      const response = completion.choices[0]?.message?.content;
+      const parsed = JSON.parse(response || '');
+      return NextResponse.json({
+        suggestions: sanitizeSuggestions(parsed.mappings, headers, heuristic, collection),
+        source: 'openai'
+      });
+    } catch (error) {
+      console.error('AI header mapping failed, using the heuristic:', error);
+      return NextResponse.json({ suggestions: heuristic, source: 'heuristic' });
+    }
+
+  } catch (error) {
+    console.error('Header Mapping API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to map headers' },
+      { status: 500 }
+    );
+  }
+}
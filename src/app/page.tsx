@@ -1,32 +1,68 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { Upload, FileText, Users, Briefcase, Settings, Download, Search, AlertCircle, X } from 'lucide-react';
 import FileUpload from '@/components/FileUpload';
-import DataGrid from '@/components/DataGrid';
+import DataGrid, { GridFocusTarget } from '@/components/DataGrid';
 import ValidationPanel from '@/components/ValidationPanel';
+import DependencyPanel from '@/components/DependencyPanel';
+import SkillCoveragePanel from '@/components/SkillCoveragePanel';
+import CapacityPanel from '@/components/CapacityPanel';
 import RuleBuilder from '@/components/RuleBuilder';
 import PrioritizationPanel from '@/components/PrioritizationPanel';
 import AISearch from '@/components/AISearch';
-import { DataEntity, ValidationError, BusinessRule, PrioritizationWeights, AISearchResult } from '@/types/data';
+import ExportPanel from '@/components/ExportPanel';
+import SessionDiffPanel from '@/components/SessionDiffPanel';
+import { DataEntity, DataSet, EntityCollection, ValidationError, BusinessRule, PrioritizationWeights, AISearchResult, Suppression } from '@/types/data';
+import { runValidation } from '@/lib/runValidation';
+import { applyFixes } from '@/lib/fixes';
+import { createSuppression, isSuppressed, suppressionKey } from '@/lib/suppressions';
+import { ENTITY_COLLECTIONS, ENTITY_TYPES, ID_FIELDS } from '@/lib/schema';
+import { EditLog, MergeResult, emptyEditLog, recordEdits } from '@/lib/merge';
+import { ProvenanceLog, RowProvenance, emptyProvenanceLog, mergeProvenance, renameRows } from '@/lib/provenance';
+import { downloadFile } from '@/lib/download';
+import { DEFAULT_WEIGHTS, RulesImport, buildRulesDocument, loadStoredRules, saveStoredRules } from '@/lib/rulesFile';
+import { buildReportRows, buildValidationReport, ReportFormat } from '@/lib/validationReport';
+import { MappingProfile } from '@/lib/mappingProfiles';
+import { RestoredSession, SessionDiff, diffSessions } from '@/lib/session';
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState<'upload' | 'data' | 'rules' | 'priorities' | 'export'>('upload');
   const [showAISearch, setShowAISearch] = useState(false);
-  const [data, setData] = useState<{
-    clients: DataEntity[];
-    workers: DataEntity[];
-    tasks: DataEntity[];
-  }>({ clients: [], workers: [], tasks: [] });
+  const [data, setData] = useState<DataSet>({ clients: [], workers: [], tasks: [] });
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [columnErrors, setColumnErrors] = useState<ValidationError[]>([]);
+  const [fileNames, setFileNames] = useState<Partial<Record<EntityCollection, string>>>({});
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [gridFocus, setGridFocus] = useState<GridFocusTarget | null>(null);
+  const [editLog, setEditLog] = useState<EditLog>(emptyEditLog());
+  const [provenance, setProvenance] = useState<ProvenanceLog>(emptyProvenanceLog());
   const [rules, setRules] = useState<BusinessRule[]>([]);
-  const [priorities, setPriorities] = useState<PrioritizationWeights>({
-    priorityLevel: 0.3,
-    fulfillment: 0.25,
-    fairness: 0.2,
-    workload: 0.15,
-    efficiency: 0.1
-  });
+  const [priorities, setPriorities] = useState<PrioritizationWeights>(DEFAULT_WEIGHTS);
+  // Header mappings confirmed for the current upload, carried in bundles
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
+  // What the last restored bundle changed, until dismissed
+  const [sessionDiff, setSessionDiff] = useState<SessionDiff | null>(null);
+  // Rules are only saved once the stored ones have been read back
+  const [rulesRestored, setRulesRestored] = useState(false);
+
+  useEffect(() => {
+    const stored = loadStoredRules();
+    if (stored) {
+      setRules(stored.rules);
+      if (stored.weights) setPriorities(stored.weights);
+      setSuppressions(stored.suppressions);
+    }
+    setRulesRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (!rulesRestored) return;
+    // Storage may be full or unavailable; the session carries on unsaved
+    buildRulesDocument(rules, priorities, suppressions)
+      .then(saveStoredRules)
+      .catch(error => console.error('Rules could not be saved:', error));
+  }, [rulesRestored, rules, priorities, suppressions]);
 
   const tabs = [
     { id: 'upload', label: 'Upload Data', icon: Upload },
@@ -36,13 +72,138 @@ export default function Home() {
     { id: 'export', label: 'Export', icon: Download },
   ];
 
-  const handleDataUpload = (newData: { clients: DataEntity[]; workers: DataEntity[]; tasks: DataEntity[] }) => {
+  // Column errors come from the uploaded files and only change on re-upload;
+  // everything else is recomputed from the current data.
+  const revalidate = (nextData: DataSet, nextColumnErrors: ValidationError[] = columnErrors) => {
+    setValidationErrors([...nextColumnErrors, ...runValidation(nextData)]);
+  };
+
+  const handleDataUpload = (
+    newData: DataSet,
+    newColumnErrors: ValidationError[],
+    newFileNames: Record<EntityCollection, string>,
+    newProvenance: ProvenanceLog,
+    newProfiles: MappingProfile[]
+  ) => {
     setData(newData);
+    setColumnErrors(newColumnErrors);
+    setFileNames(newFileNames);
+    setEditLog(emptyEditLog());
+    setProvenance(newProvenance);
+    setMappingProfiles(newProfiles);
+    setSessionDiff(null);
+    revalidate(newData, newColumnErrors);
+    setActiveTab('data');
+  };
+
+  // Unlike an upload or rules import, a restore replaces everything, rules
+  // and suppressions included; a bundle without weights resets them
+  const handleRestoreSession = (session: RestoredSession) => {
+    const nextRules = session.rules?.rules ?? [];
+    const nextPriorities = session.rules?.weights ?? DEFAULT_WEIGHTS;
+    setSessionDiff(diffSessions(
+      session.bundleName,
+      { data, rules, priorities },
+      { data: session.data, rules: nextRules, priorities: nextPriorities },
+      session.history
+    ));
+    setData(session.data);
+    setColumnErrors(session.columnErrors);
+    setFileNames(session.fileNames);
+    setEditLog(session.edits);
+    setProvenance(session.provenance);
+    setMappingProfiles(session.profiles);
+    setRules(nextRules);
+    setPriorities(nextPriorities);
+    setSuppressions(session.rules?.suppressions ?? []);
+    revalidate(session.data, session.columnErrors);
+    setActiveTab('data');
+  };
+
+  const handleDataMerge = (
+    collection: EntityCollection,
+    result: MergeResult,
+    mergeColumnErrors: ValidationError[] | undefined,
+    fileName: string,
+    incomingProvenance: Record<string, RowProvenance>
+  ) => {
+    const nextData = { ...data, [collection]: result.rows };
+    const nextColumnErrors = mergeColumnErrors
+      ? [...columnErrors.filter(error => error.entityType !== ENTITY_TYPES[collection]), ...mergeColumnErrors]
+      : columnErrors;
+    setData(nextData);
+    setColumnErrors(nextColumnErrors);
+    setFileNames(prev => ({ ...prev, [collection]: fileName }));
+    setEditLog(prev => ({ ...prev, [collection]: result.edits }));
+    setProvenance(prev => ({ ...prev, [collection]: mergeProvenance(prev[collection], incomingProvenance, result) }));
+    revalidate(nextData, nextColumnErrors);
     setActiveTab('data');
   };
 
   const handleDataUpdate = (entityType: 'clients' | 'workers' | 'tasks', newData: DataEntity[]) => {
-    setData(prev => ({ ...prev, [entityType]: newData }));
+    const nextData = { ...data, [entityType]: newData };
+    setEditLog(prev => recordEdits(prev, entityType, data[entityType], newData));
+    setData(nextData);
+    revalidate(nextData);
+  };
+
+  const handleApplyFix = (errorsToFix: ValidationError[]) => {
+    const { data: nextData, changes } = applyFixes(data, errorsToFix);
+    // Fixing a duplicate ID renames the row, so its history has to follow
+    changes
+      .filter(change => change.field === ID_FIELDS[change.collection])
+      .forEach(change => {
+        const rename: [string, string][] = [[change.entityId, String(change.after)]];
+        setEditLog(prev => renameRows(prev, change.collection, rename));
+        setProvenance(prev => renameRows(prev, change.collection, rename));
+      });
+    setData(nextData);
+    revalidate(nextData);
+  };
+
+  const handleSuppress = (error: ValidationError, reason: string) => {
+    setSuppressions(prev => [...prev, createSuppression(error, reason)]);
+  };
+
+  const handleRemoveSuppression = (suppression: Suppression) => {
+    const key = suppressionKey(suppression);
+    setSuppressions(prev => prev.filter(s => suppressionKey(s) !== key));
+  };
+
+  // Imported rules replace current ones with the same id; weights are taken
+  // over only when the file has them
+  const handleImportRules = (imported: RulesImport) => {
+    const importedIds = new Set(imported.rules.map(rule => rule.id));
+    setRules(prev => [...prev.filter(rule => !importedIds.has(rule.id)), ...imported.rules]);
+    if (imported.weights) setPriorities(imported.weights);
+    const importedKeys = new Set(imported.suppressions.map(suppressionKey));
+    setSuppressions(prev => [...prev.filter(s => !importedKeys.has(suppressionKey(s))), ...imported.suppressions]);
+  };
+
+  // Suppressed findings stay in validationErrors so the panel can show them on demand
+  const activeErrors = useMemo(
+    () => validationErrors.filter(error => !isSuppressed(error, suppressions)),
+    [validationErrors, suppressions]
+  );
+
+  const handleExportReport = (format: ReportFormat) => {
+    const report = buildValidationReport(buildReportRows(activeErrors, data, fileNames, provenance), format);
+    downloadFile(report.fileName, report.content, report.type);
+  };
+
+  const handleSelectError = (error: ValidationError) => {
+    setGridFocus({
+      collection: ENTITY_COLLECTIONS[error.entityType],
+      rowIndex: error.rowIndex,
+      field: error.field,
+      requestId: Date.now()
+    });
+  };
+
+  // From outside the Data tab, e.g. the export preflight
+  const handleShowInGrid = (error: ValidationError) => {
+    handleSelectError(error);
+    setActiveTab('data');
   };
 
   const handleAISearchResult = (result: AISearchResult) => {
@@ -70,10 +231,10 @@ export default function Home() {
                 <Search className="h-4 w-4" />
                 <span>AI Search</span>
               </button>
-              {validationErrors.length > 0 && (
+              {activeErrors.length > 0 && (
                 <div className="flex items-center space-x-2 text-sm text-red-600">
                   <AlertCircle className="h-4 w-4" />
-                  <span>{validationErrors.length} errors</span>
+                  <span>{activeErrors.length} errors</span>
                 </div>
               )}
             </div>
@@ -109,24 +270,48 @@ export default function Home() {
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {activeTab === 'upload' && (
-          <FileUpload onDataUpload={handleDataUpload} />
+          <FileUpload
+            onDataUpload={handleDataUpload}
+            data={data}
+            editLog={editLog}
+            onDataMerge={handleDataMerge}
+            onRestoreSession={handleRestoreSession}
+          />
         )}
 
         {activeTab === 'data' && (
           <div className="space-y-6">
+            {sessionDiff && (
+              <SessionDiffPanel diff={sessionDiff} onDismiss={() => setSessionDiff(null)} />
+            )}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               <div className="lg:col-span-2">
                 <DataGrid
                   data={data}
+                  provenance={provenance}
+                  editLog={editLog}
                   onDataUpdate={handleDataUpdate}
-                  validationErrors={validationErrors}
+                  validationErrors={activeErrors}
                   setValidationErrors={setValidationErrors}
+                  focusTarget={gridFocus}
                 />
               </div>
               <div>
-                <ValidationPanel errors={validationErrors} />
+                <ValidationPanel
+                  errors={validationErrors}
+                  data={data}
+                  onApplyFix={handleApplyFix}
+                  suppressions={suppressions}
+                  onSuppress={handleSuppress}
+                  onRemoveSuppression={handleRemoveSuppression}
+                  onExportReport={handleExportReport}
+                  onSelectError={handleSelectError}
+                />
               </div>
             </div>
+            <DependencyPanel tasks={data.tasks} />
+            <SkillCoveragePanel data={data} />
+            <CapacityPanel data={data} />
           </div>
         )}
 
@@ -135,6 +320,7 @@ export default function Home() {
             data={data}
             rules={rules}
             setRules={setRules}
+            onImport={handleImportRules}
           />
         )}
 
@@ -146,47 +332,19 @@ export default function Home() {
         )}
 
         {activeTab === 'export' && (
-          <div className="bg-white rounded-lg shadow p-6">
-            <h2 className="text-xl font-semibold mb-4">Export Cleaned Data</h2>
-            <div className="space-y-4">
-              <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                <div>
-                  <h3 className="font-medium">Clients Data</h3>
-                  <p className="text-sm text-gray-500">{data.clients.length} records</p>
-                </div>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
-                  Export CSV
-                </button>
-              </div>
-              <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                <div>
-                  <h3 className="font-medium">Workers Data</h3>
-                  <p className="text-sm text-gray-500">{data.workers.length} records</p>
-                </div>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
-                  Export CSV
-                </button>
-              </div>
-              <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                <div>
-                  <h3 className="font-medium">Tasks Data</h3>
-                  <p className="text-sm text-gray-500">{data.tasks.length} records</p>
-                </div>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
-                  Export CSV
-                </button>
-              </div>
-              <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                <div>
-                  <h3 className="font-medium">Business Rules</h3>
-                  <p className="text-sm text-gray-500">{rules.length} rules configured</p>
-                </div>
-                <button className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700">
-                  Export JSON
-                </button>
-              </div>
-            </div>
-          </div>
+          <ExportPanel
+            data={data}
+            errors={activeErrors}
+            fileNames={fileNames}
+            rules={rules}
+            suppressions={suppressions}
+            priorities={priorities}
+            provenance={provenance}
+            editLog={editLog}
+            profiles={mappingProfiles}
+            columnErrors={columnErrors}
+            onSelectError={handleShowInGrid}
+          />
         )}
       </main>
 
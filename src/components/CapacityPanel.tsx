@@ -0,0 +1,67 @@
+'use client';
+
+import { useMemo } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { DataSet } from '@/types/data';
+import { analyzeCapacity } from '@/lib/capacity';
+
+interface CapacityPanelProps {
+  data: DataSet;
+}
+
+export default function CapacityPanel({ data }: CapacityPanelProps) {
+  const phases = useMemo(() => analyzeCapacity(data), [data]);
+  const scale = Math.max(1, ...phases.flatMap(phase => [phase.demand, phase.supply]));
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header */}
+      <div className="p-4 border-b">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <BarChart3 className="h-5 w-5 text-blue-500" />
+            <h3 className="text-lg font-semibold text-gray-900">Phase Capacity</h3>
+          </div>
+          <div className="flex items-center space-x-4 text-xs text-gray-600">
+            <div className="flex items-center space-x-1">
+              <span className="inline-block h-2 w-4 rounded bg-blue-400" />
+              <span>Supply</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <span className="inline-block h-2 w-4 rounded bg-purple-400" />
+              <span>Demand</span>
+            </div>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Worker-slots available per phase against slots requested by tasks preferring it.
+        </p>
+      </div>
+
+      {phases.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No phase information available.</div>
+      ) : (
+        <div className="p-4 space-y-3">
+          {phases.map(({ phase, demand, supply }) => {
+            const over = demand > supply;
+            return (
+              <div key={phase} className="flex items-center space-x-3">
+                <span className="w-16 text-sm text-gray-700">Phase {phase}</span>
+                <div className="flex-1 space-y-1">
+                  <div className="h-3 rounded bg-blue-400" style={{ width: `${(supply / scale) * 100}%` }} />
+                  <div
+                    className={`h-3 rounded ${over ? 'bg-red-400' : 'bg-purple-400'}`}
+                    style={{ width: `${(demand / scale) * 100}%` }}
+                  />
+                </div>
+                <span className={`w-24 text-right text-xs ${over ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                  {demand} / {supply}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
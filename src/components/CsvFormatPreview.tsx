@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { CsvDelimiter, CsvEncoding, CsvFormat, DELIMITERS, ENCODINGS, decodeSample, previewCsv, readSample } from '@/lib/csvFormat';
+
+interface CsvFormatPreviewProps {
+  file: File;
+  format: CsvFormat; // Detected, or the last override
+  onApply: (format: CsvFormat) => void;
+  onCancel: () => void;
+}
+
+export default function CsvFormatPreview({ file, format, onApply, onCancel }: CsvFormatPreviewProps) {
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(format.delimiter);
+  const [encoding, setEncoding] = useState<CsvEncoding>(format.encoding);
+  const [sample, setSample] = useState<Uint8Array | null>(null);
+
+  useEffect(() => {
+    readSample(file).then(setSample).catch(() => setSample(new Uint8Array()));
+  }, [file]);
+
+  // Re-split on every change so the effect of an override is visible right away
+  const rows = useMemo(
+    () => (sample ? previewCsv(decodeSample(sample, encoding), delimiter) : []),
+    [sample, encoding, delimiter]
+  );
+  const [header = [], ...body] = rows;
+  const changed = delimiter !== format.delimiter || encoding !== format.encoding;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h3 className="text-lg font-semibold text-gray-900">How is {file.name} laid out?</h3>
+          <p className="text-sm text-gray-500">
+            Check the first rows below. If everything lands in one column or characters look garbled, change the delimiter or encoding.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-4 mt-3">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Delimiter</span>
+              <select
+                value={delimiter}
+                onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}
+                className="border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                {DELIMITERS.map(option => (
+                  <option key={option.label} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Encoding</span>
+              <select
+                value={encoding}
+                onChange={(e) => setEncoding(e.target.value as CsvEncoding)}
+                disabled={format.bom}
+                className="border border-gray-300 rounded px-2 py-1 text-sm disabled:bg-gray-100"
+              >
+                {ENCODINGS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            {format.bom && (
+              <span className="text-xs text-gray-500">The file starts with a byte order mark, which sets the encoding</span>
+            )}
+          </div>
+        </div>
+
+        <div className="overflow-auto flex-1">
+          {sample === null ? (
+            <p className="p-6 text-center text-sm text-gray-500">Reading file...</p>
+          ) : rows.length === 0 ? (
+            <p className="p-6 text-center text-sm text-gray-500">The file appears to be empty.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {header.map((cell, index) => (
+                    <th key={index} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                      {cell}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {body.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, index) => (
+                      <td key={index} className="px-3 py-2 text-sm text-gray-700 whitespace-nowrap">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t flex items-center justify-between">
+          <span className="text-sm text-gray-500">
+            {header.length} {header.length === 1 ? 'column' : 'columns'}
+          </span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply({ ...format, delimiter, encoding })}
+              disabled={!changed}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              Re-read File
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
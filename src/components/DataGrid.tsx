@@ -1,8 +1,11 @@
 'use client';
 
-import { useState, useMemo } from 'react';
-import { ChevronDown, ChevronUp, Search, Filter, Edit3, Save, X } from 'lucide-react';
-import { DataEntity, ValidationError } from '@/types/data';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { ChevronDown, ChevronUp, Search, Filter, Edit3, Save, X, Info } from 'lucide-react';
+import { DataEntity, EntityCollection, ValidationError } from '@/types/data';
+import { ENTITY_SCHEMAS, FieldSchema } from '@/lib/schema';
+import { EditLog } from '@/lib/merge';
+import { ProvenanceLog, describeSource } from '@/lib/provenance';
 
 interface DataGridProps {
   data: {
@@ -10,9 +13,21 @@ interface DataGridProps {
     workers: DataEntity[];
     tasks: DataEntity[];
   };
+  provenance: ProvenanceLog;
+  editLog: EditLog;
   onDataUpdate: (entityType: 'clients' | 'workers' | 'tasks', newData: DataEntity[]) => void;
   validationErrors: ValidationError[];
   setValidationErrors: (errors: ValidationError[]) => void;
+  focusTarget?: GridFocusTarget | null;
+}
+
+// Cell to reveal and highlight, e.g. from a validation finding.
+// requestId changes on every request so selecting the same cell twice still fires.
+export interface GridFocusTarget {
+  collection: EntityCollection;
+  rowIndex?: number;
+  field: string;
+  requestId: number;
 }
 
 interface Column {
@@ -21,51 +36,115 @@ interface Column {
   type: 'text' | 'number' | 'array' | 'json' | 'select';
   editable: boolean;
   options?: string[];
+  itemType?: 'number'; // Element type for array columns; defaults to text
 }
 
-export default function DataGrid({ data, onDataUpdate, validationErrors, setValidationErrors }: DataGridProps) {
+const COLUMN_TYPES: Record<FieldSchema['type'], Column['type']> = {
+  text: 'text',
+  number: 'number',
+  list: 'array',
+  json: 'json'
+};
+
+const toColumns = (collection: EntityCollection): Column[] =>
+  ENTITY_SCHEMAS[collection].fields.map(field => ({
+    key: field.name,
+    label: field.label,
+    type: COLUMN_TYPES[field.type],
+    editable: true,
+    itemType: field.itemType === 'integer' ? 'number' : undefined
+  }));
+
+const columns: Record<EntityCollection, Column[]> = {
+  clients: toColumns('clients'),
+  workers: toColumns('workers'),
+  tasks: toColumns('tasks')
+};
+
+// Text the cell editor starts from; leaving it unchanged saves nothing
+const editorText = (value: unknown, column: Column) => {
+  if (value === undefined || value === null) return '';
+  if (column.type === 'array' && Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+const parseArrayInput = (raw: string, column: Column) => {
+  if (raw.trim() === '') return [];
+  const items = raw.split(',').map(v => v.trim());
+  // Keep unparseable entries as-is so validation can point at them
+  return column.itemType === 'number'
+    ? items.map(v => (v !== '' && !isNaN(Number(v)) ? Number(v) : v))
+    : items;
+};
+
+// JSON fields keep their text, as they do on upload
+const parseEditorText = (raw: string, column: Column): { value: unknown } | { error: string } => {
+  switch (column.type) {
+    case 'array':
+      return { value: parseArrayInput(raw, column) };
+    case 'number': {
+      const number = Number(raw.trim());
+      return raw.trim() !== '' && Number.isFinite(number) ? { value: number } : { error: 'Enter a number' };
+    }
+    case 'json':
+      try {
+        JSON.parse(raw);
+        return { value: raw };
+      } catch {
+        return { error: 'Not valid JSON' };
+      }
+    default:
+      return { value: raw };
+  }
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function DataGrid({ data, provenance, editLog, onDataUpdate, validationErrors, setValidationErrors, focusTarget }: DataGridProps) {
   const [activeEntity, setActiveEntity] = useState<'clients' | 'workers' | 'tasks'>('clients');
   const [editingCell, setEditingCell] = useState<{ rowId: string; column: string } | null>(null);
+  const [draft, setDraft] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+  const [highlightedCell, setHighlightedCell] = useState<{ rowId: string; column: string } | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
-
-  const columns: Record<string, Column[]> = {
-    clients: [
-      { key: 'ClientID', label: 'Client ID', type: 'text', editable: true },
-      { key: 'ClientName', label: 'Client Name', type: 'text', editable: true },
-      { key: 'ClientGroup', label: 'Client Group', type: 'text', editable: true },
-      { key: 'PriorityLevel', label: 'Priority Level', type: 'number', editable: true },
-      { key: 'RequestedTaskIDs', label: 'Requested Tasks', type: 'array', editable: true },
-      { key: 'PreferredPhases', label: 'Preferred Phases', type: 'array', editable: true },
-      { key: 'MaxBudget', label: 'Max Budget', type: 'number', editable: true },
-      { key: 'AttributesJSON', label: 'Attributes', type: 'json', editable: true }
-    ],
-    workers: [
-      { key: 'WorkerID', label: 'Worker ID', type: 'text', editable: true },
-      { key: 'WorkerName', label: 'Worker Name', type: 'text', editable: true },
-      { key: 'WorkerGroup', label: 'Worker Group', type: 'text', editable: true },
-      { key: 'Skills', label: 'Skills', type: 'array', editable: true },
-      { key: 'AvailableSlots', label: 'Available Slots', type: 'array', editable: true },
-      { key: 'MaxLoadPerPhase', label: 'Max Load/Phase', type: 'number', editable: true },
-      { key: 'HourlyRate', label: 'Hourly Rate', type: 'number', editable: true },
-      { key: 'AttributesJSON', label: 'Attributes', type: 'json', editable: true }
-    ],
-    tasks: [
-      { key: 'TaskID', label: 'Task ID', type: 'text', editable: true },
-      { key: 'TaskName', label: 'Task Name', type: 'text', editable: true },
-      { key: 'Duration', label: 'Duration', type: 'number', editable: true },
-      { key: 'RequiredSkills', label: 'Required Skills', type: 'array', editable: true },
-      { key: 'PreferredPhases', label: 'Preferred Phases', type: 'array', editable: true },
-      { key: 'PriorityLevel', label: 'Priority Level', type: 'number', editable: true },
-      { key: 'Dependencies', label: 'Dependencies', type: 'array', editable: true },
-      { key: 'MaxConcurrent', label: 'Max Concurrent', type: 'number', editable: true },
-      { key: 'AttributesJSON', label: 'Attributes', type: 'json', editable: true }
-    ]
-  };
+  const [provenanceRowId, setProvenanceRowId] = useState<string | null>(null);
 
   const currentData = data[activeEntity];
   const currentColumns = columns[activeEntity];
 
+  // Position of each row in the dataset, independent of search and sort
+  const rowIndexes = useMemo(() => new Map(currentData.map((item, index) => [item, index])), [currentData]);
+
+  // Each focus request is handled once, so later data edits do not move the focus again
+  const handledFocusRequest = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!focusTarget || handledFocusRequest.current === focusTarget.requestId) return;
+    handledFocusRequest.current = focusTarget.requestId;
+
+    setActiveEntity(focusTarget.collection);
+    setSearchTerm('');
+
+    const row = focusTarget.rowIndex !== undefined ? data[focusTarget.collection][focusTarget.rowIndex] : undefined;
+    if (!row) return;
+
+    // Only shows the cell; editing it stays an explicit action
+    setHighlightedCell({ rowId: row.id, column: focusTarget.field });
+    requestAnimationFrame(() => {
+      document
+        .getElementById(`grid-row-${focusTarget.collection}-${focusTarget.rowIndex}`)
+        ?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      document.getElementById(`grid-cell-${focusTarget.collection}-${row.id}-${focusTarget.field}`)?.focus({ preventScroll: true });
+    });
+  }, [focusTarget, data]);
+
   // Filter and sort data
   const filteredAndSortedData = useMemo(() => {
     let filtered = currentData.filter(item =>
@@ -105,11 +184,14 @@ export default function DataGrid({ data, onDataUpdate, validationErrors, setVali
     );
   };
 
-  const handleCellEdit = (rowId: string, column: string) => {
-    setEditingCell({ rowId, column });
+  const handleCellEdit = (item: DataEntity, column: Column) => {
+    setEditingCell({ rowId: item.id, column: column.key });
+    setDraft(editorText(item[column.key], column));
+    setEditError(null);
+    setHighlightedCell(null);
   };
 
-  const handleCellSave = (rowId: string, column: string, value: any) => {
+  const handleCellSave = (rowId: string, column: string, value: unknown) => {
     const updatedData = currentData.map(row => {
       if (row.id === rowId) {
         return { ...row, [column]: value };
@@ -123,6 +205,64 @@ export default function DataGrid({ data, onDataUpdate, validationErrors, setVali
 
   const handleCellCancel = () => {
     setEditingCell(null);
+    setEditError(null);
+  };
+
+  // Saves only a value that changed and parses; otherwise the editor stays
+  // open with the reason, or closes when nothing changed
+  const handleCellCommit = (item: DataEntity, column: Column) => {
+    const current = item[column.key];
+    if (draft === editorText(current, column)) return handleCellCancel();
+    const parsed = parseEditorText(draft, column);
+    if ('error' in parsed) return setEditError(parsed.error);
+    if (JSON.stringify(parsed.value) === JSON.stringify(current)) return handleCellCancel();
+    handleCellSave(item.id, column.key, parsed.value);
+  };
+
+  // Where the row came from and how each field compares to the uploaded value
+  const renderProvenance = (item: DataEntity) => {
+    const source = provenance[activeEntity][item.id];
+    const edited = new Set(editLog[activeEntity][item.id] || []);
+
+    return (
+      <div className="absolute left-10 top-0 z-20 w-96 bg-white rounded-lg shadow-lg border p-4 text-left">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-semibold text-gray-900">Row source</h4>
+          <button
+            onClick={() => setProvenanceRowId(null)}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <p className="text-xs text-gray-600 mb-3">
+          {source ? describeSource(source) : 'Not from an uploaded file'}
+        </p>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium pb-1">Field</th>
+              <th className="text-left font-medium pb-1">Original</th>
+              <th className="text-left font-medium pb-1">Current</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {currentColumns.map(column => (
+              <tr key={column.key}>
+                <td className="py-1 pr-2 text-gray-700">{column.label}</td>
+                <td className="py-1 pr-2 text-gray-500 break-all">{source ? formatValue(source.raw[column.key]) : '—'}</td>
+                <td className="py-1 text-gray-900 break-all">
+                  {formatValue(item[column.key])}
+                  {edited.has(column.key) && (
+                    <span className="ml-1 px-1 rounded bg-yellow-100 text-yellow-800">edited</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
   };
 
   const renderCellValue = (item: DataEntity, column: Column) => {
@@ -131,91 +271,54 @@ export default function DataGrid({ data, onDataUpdate, validationErrors, setVali
     const isEditing = editingCell?.rowId === item.id && editingCell?.column === column.key;
 
     if (isEditing) {
+      const editorProps = {
+        value: draft,
+        className: `flex-1 px-2 py-1 text-sm border rounded ${editError ? 'border-red-500' : ''}`,
+        onBlur: () => handleCellCommit(item, column),
+        autoFocus: true
+      };
       return (
-        <div className="flex items-center space-x-2">
-          {column.type === 'array' ? (
-            <input
-              type="text"
-              defaultValue={Array.isArray(value) ? value.join(', ') : value}
-              className="flex-1 px-2 py-1 text-sm border rounded"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  const newValue = (e.target as HTMLInputElement).value.split(',').map(v => v.trim());
-                  handleCellSave(item.id, column.key, newValue);
-                } else if (e.key === 'Escape') {
-                  handleCellCancel();
-                }
-              }}
-              onBlur={(e) => {
-                const newValue = e.target.value.split(',').map(v => v.trim());
-                handleCellSave(item.id, column.key, newValue);
-              }}
-              autoFocus
-            />
-          ) : column.type === 'json' ? (
-            <textarea
-              defaultValue={typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
-              className="flex-1 px-2 py-1 text-sm border rounded"
-              rows={3}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && e.ctrlKey) {
-                  try {
-                    const newValue = JSON.parse((e.target as HTMLTextAreaElement).value);
-                    handleCellSave(item.id, column.key, newValue);
-                  } catch {
-                    // Keep as string if invalid JSON
-                    handleCellSave(item.id, column.key, (e.target as HTMLTextAreaElement).value);
-                  }
-                } else if (e.key === 'Escape') {
-                  handleCellCancel();
-                }
-              }}
-              onBlur={(e) => {
-                try {
-                  const newValue = JSON.parse(e.target.value);
-                  handleCellSave(item.id, column.key, newValue);
-                } catch {
-                  handleCellSave(item.id, column.key, e.target.value);
-                }
-              }}
-              autoFocus
-            />
-          ) : (
-            <input
-              type={column.type === 'number' ? 'number' : 'text'}
-              defaultValue={value}
-              className="flex-1 px-2 py-1 text-sm border rounded"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  const newValue = column.type === 'number' 
-                    ? parseFloat((e.target as HTMLInputElement).value)
-                    : (e.target as HTMLInputElement).value;
-                  handleCellSave(item.id, column.key, newValue);
-                } else if (e.key === 'Escape') {
-                  handleCellCancel();
-                }
-              }}
-              onBlur={(e) => {
-                const newValue = column.type === 'number' 
-                  ? parseFloat(e.target.value)
-                  : e.target.value;
-                handleCellSave(item.id, column.key, newValue);
-              }}
-              autoFocus
-            />
-          )}
-          <button
-            onClick={() => handleCellSave(item.id, column.key, value)}
-            className="p-1 text-green-600 hover:text-green-800"
-          >
-            <Save className="h-3 w-3" />
-          </button>
-          <button
-            onClick={handleCellCancel}
-            className="p-1 text-red-600 hover:text-red-800"
-          >
-            <X className="h-3 w-3" />
-          </button>
+        <div>
+          <div className="flex items-center space-x-2">
+            {column.type === 'json' ? (
+              <textarea
+                {...editorProps}
+                rows={3}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && e.ctrlKey) handleCellCommit(item, column);
+                  else if (e.key === 'Escape') handleCellCancel();
+                }}
+              />
+            ) : (
+              <input
+                {...editorProps}
+                type="text"
+                inputMode={column.type === 'number' ? 'decimal' : undefined}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleCellCommit(item, column);
+                  else if (e.key === 'Escape') handleCellCancel();
+                }}
+              />
+            )}
+            {/* mousedown is prevented so the editor's blur does not commit first */}
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleCellCommit(item, column)}
+              className="p-1 text-green-600 hover:text-green-800"
+            >
+              <Save className="h-3 w-3" />
+            </button>
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={handleCellCancel}
+              className="p-1 text-red-600 hover:text-red-800"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+          {editError && <p className="mt-1 text-xs text-red-600">{editError}</p>}
         </div>
       );
     }
@@ -234,8 +337,10 @@ export default function DataGrid({ data, onDataUpdate, validationErrors, setVali
         </span>
         {column.editable && (
           <button
-            onClick={() => handleCellEdit(item.id, column.key)}
-            className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-gray-600"
+            id={`grid-cell-${activeEntity}-${item.id}-${column.key}`}
+            onClick={() => handleCellEdit(item, column)}
+            title="Edit"
+            className="opacity-0 group-hover:opacity-100 focus:opacity-100 p-1 text-gray-400 hover:text-gray-600"
           >
             <Edit3 className="h-3 w-3" />
           </button>
@@ -284,6 +389,7 @@ export default function DataGrid({ data, onDataUpdate, validationErrors, setVali
         <table className="w-full">
           <thead className="bg-gray-50">
             <tr>
+              <th className="w-10" />
               {currentColumns.map(column => (
                 <th
                   key={column.key}
@@ -306,17 +412,32 @@ export default function DataGrid({ data, onDataUpdate, validationErrors, setVali
             {filteredAndSortedData.map((item, index) => (
               <tr
                 key={item.id}
+                id={`grid-row-${activeEntity}-${rowIndexes.get(item)}`}
                 className={`hover:bg-gray-50 ${
                   validationErrors.some(error => error.entityId === item.id)
                     ? 'bg-red-50'
                     : ''
                 }`}
               >
+                <td className="relative pl-4 py-4 align-top">
+                  <button
+                    onClick={() => setProvenanceRowId(provenanceRowId === item.id ? null : item.id)}
+                    title="Show row source"
+                    className={`p-1 ${
+                      editLog[activeEntity][item.id] ? 'text-yellow-600 hover:text-yellow-800' : 'text-gray-400 hover:text-gray-600'
+                    }`}
+                  >
+                    <Info className="h-4 w-4" />
+                  </button>
+                  {provenanceRowId === item.id && renderProvenance(item)}
+                </td>
                 {currentColumns.map(column => (
                   <td
                     key={column.key}
                     className={`px-6 py-4 text-sm text-gray-900 ${
                       getCellError(item.id, column.key) ? 'bg-red-100' : ''
+                    } ${
+                      highlightedCell?.rowId === item.id && highlightedCell.column === column.key ? 'ring-2 ring-inset ring-blue-500' : ''
                     }`}
                   >
                     {renderCellValue(item, column)}
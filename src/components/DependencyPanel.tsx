@@ -0,0 +1,127 @@
+'use client';
+
+import { useMemo } from 'react';
+import { GitBranch, AlertCircle, ArrowRight } from 'lucide-react';
+import { DataEntity } from '@/types/data';
+import { analyzeDependencies } from '@/lib/dependencyGraph';
+
+interface DependencyPanelProps {
+  tasks: DataEntity[];
+}
+
+export default function DependencyPanel({ tasks }: DependencyPanelProps) {
+  const analysis = useMemo(() => analyzeDependencies(tasks), [tasks]);
+
+  const tasksById = useMemo(() => {
+    const map = new Map<string, DataEntity>();
+    tasks.forEach(task => {
+      const id = String(task.TaskID ?? '').trim();
+      if (id && !map.has(id)) map.set(id, task);
+    });
+    return map;
+  }, [tasks]);
+
+  const criticalSet = new Set(analysis.criticalPath);
+  const rows = [...analysis.order, ...analysis.blocked];
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header */}
+      <div className="p-4 border-b">
+        <div className="flex items-center space-x-2">
+          <GitBranch className="h-5 w-5 text-purple-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Task Dependencies</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Longest dependency chain and the earliest phase each task can start in.
+        </p>
+      </div>
+
+      {tasks.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No tasks loaded.</div>
+      ) : (
+        <div className="p-4 space-y-4">
+          {/* Critical Path */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">
+              Critical Path ({analysis.criticalPathDuration} phases)
+            </h4>
+            {analysis.criticalPath.length > 0 ? (
+              <div className="flex flex-wrap items-center gap-1">
+                {analysis.criticalPath.map((id, index) => (
+                  <div key={id} className="flex items-center space-x-1">
+                    {index > 0 && <ArrowRight className="h-3 w-3 text-gray-400" />}
+                    <span className="px-2 py-1 text-xs bg-purple-100 text-purple-800 rounded-full">
+                      {id} ({tasksById.get(id)?.Duration ?? 1})
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No schedulable tasks.</p>
+            )}
+          </div>
+
+          {/* Cycles */}
+          {analysis.cycles.length > 0 && (
+            <div className="p-3 rounded border border-red-200 bg-red-50">
+              <div className="flex items-center space-x-1 mb-1">
+                <AlertCircle className="h-4 w-4 text-red-500" />
+                <span className="text-sm font-medium text-red-800">
+                  {analysis.cycles.length} circular {analysis.cycles.length === 1 ? 'dependency' : 'dependencies'}
+                </span>
+              </div>
+              {analysis.cycles.map(cycle => (
+                <p key={cycle.join('>')} className="text-xs text-red-700">
+                  {[...cycle, cycle[0]].join(' → ')}
+                </p>
+              ))}
+              <p className="text-xs text-red-700 mt-1">
+                {analysis.blocked.length} tasks cannot be scheduled until these are resolved.
+              </p>
+            </div>
+          )}
+
+          {/* Schedule */}
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Task</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Depends On</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Earliest Phase</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map(id => {
+                  const task = tasksById.get(id);
+                  const phase = analysis.earliestPhase[id];
+                  return (
+                    <tr key={id} className={criticalSet.has(id) ? 'bg-purple-50' : ''}>
+                      <td className="px-3 py-2 text-sm text-gray-900">
+                        {id}
+                        {task?.TaskName && <span className="text-gray-500"> · {task.TaskName}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-600">
+                        {Array.isArray(task?.Dependencies) ? task.Dependencies.filter(Boolean).join(', ') : ''}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-600">{task?.Duration}</td>
+                      <td className="px-3 py-2 text-sm">
+                        {phase !== undefined ? (
+                          <span className="text-gray-900">{phase}</span>
+                        ) : (
+                          <span className="text-red-600">Blocked by cycle</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
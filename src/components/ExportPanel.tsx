@@ -0,0 +1,299 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, AlertCircle, CheckCircle, Package, XCircle } from 'lucide-react';
+import { BusinessRule, DataSet, EntityCollection, ExportConfig, PrioritizationWeights, Suppression, ValidationError } from '@/types/data';
+import { COLLECTIONS, ENTITY_COLLECTIONS, ENTITY_SCHEMAS } from '@/lib/schema';
+import { EditLog } from '@/lib/merge';
+import { ProvenanceLog } from '@/lib/provenance';
+import { MappingProfile } from '@/lib/mappingProfiles';
+import { ExportSource, buildExport } from '@/lib/exporters';
+import { buildBundle, buildManifest } from '@/lib/bundle';
+import { ExportOverride, PreflightResult, SuppressedError, createOverride, runPreflight } from '@/lib/preflight';
+import { downloadFiles } from '@/lib/download';
+
+interface ExportPanelProps {
+  data: DataSet;
+  errors: ValidationError[]; // Active findings, suppressed ones left out
+  columnErrors: ValidationError[]; // Upload-time findings, which preflight cannot recompute
+  fileNames: Partial<Record<EntityCollection, string>>;
+  rules: BusinessRule[];
+  suppressions: Suppression[];
+  priorities: PrioritizationWeights;
+  provenance: ProvenanceLog;
+  editLog: EditLog;
+  profiles: MappingProfile[];
+  onSelectError: (error: ValidationError) => void; // Shows the finding's cell in the grid
+}
+
+type ExportAction = 'export' | 'bundle';
+
+const FORMATS: { id: ExportConfig['format']; label: string; description: string }[] = [
+  { id: 'csv', label: 'CSV', description: 'One file per entity type, lists joined as on upload' },
+  { id: 'xlsx', label: 'XLSX', description: 'One workbook with a sheet per entity type' },
+  { id: 'json', label: 'JSON', description: 'One {clients, workers, tasks} document, lists as arrays' }
+];
+
+export default function ExportPanel({
+  data,
+  errors,
+  fileNames,
+  rules,
+  suppressions,
+  priorities,
+  provenance,
+  editLog,
+  profiles,
+  columnErrors,
+  onSelectError
+}: ExportPanelProps) {
+  const [config, setConfig] = useState<ExportConfig>({
+    format: 'csv',
+    includeValidation: false,
+    includeRules: true,
+    includePriorities: true,
+    includeProvenance: false
+  });
+  const [exportErrors, setExportErrors] = useState<string[]>([]);
+  const [preflight, setPreflight] = useState<PreflightResult | null>(null);
+  // Export held back by open errors, until they are fixed or overridden
+  const [blockedAction, setBlockedAction] = useState<ExportAction | null>(null);
+  const [overrideBy, setOverrideBy] = useState('');
+  const [overrideConfirmed, setOverrideConfirmed] = useState(false);
+
+  const options: { key: keyof Omit<ExportConfig, 'format'>; label: string; detail: string }[] = [
+    { key: 'includeValidation', label: 'Validation report', detail: `${errors.length} open findings` },
+    { key: 'includeRules', label: 'Business rules', detail: `${rules.length} rules, ${suppressions.length} suppressed findings` },
+    { key: 'includePriorities', label: 'Prioritization weights', detail: 'Relative importance of each criterion' },
+    { key: 'includeProvenance', label: 'Source rows and original values', detail: 'Where each row came from and what it said before cleaning' }
+  ];
+
+  // The bundle holds data, rules, weights and report regardless of the
+  // options above; only the source rows option carries over. A plain export
+  // that overrides or suppresses errors gets a manifest too, so that is always
+  // on record. Returns whether the files were produced; failures are shown in the panel.
+  const runExport = async (
+    action: ExportAction,
+    findings: ValidationError[],
+    suppressed: SuppressedError[],
+    override?: ExportOverride
+  ) => {
+    const source: ExportSource = {
+      data,
+      errors: findings,
+      fileNames,
+      rules,
+      suppressions,
+      priorities,
+      provenance: { provenance, edits: editLog },
+      profiles
+    };
+    try {
+      const result = action === 'bundle'
+        ? await buildBundle(source, config.includeProvenance, override, suppressed)
+        : await buildExport(source, config);
+      if (action === 'export' && result.success && (override || suppressed.length > 0)) {
+        result.files.push(await buildManifest(result.files, source, override, suppressed));
+      }
+      setExportErrors(result.errors || []);
+      await downloadFiles(result.files);
+      return result.success;
+    } catch (error) {
+      setExportErrors([`Export failed: ${error instanceof Error ? error.message : 'unknown error'}`]);
+      return false;
+    }
+  };
+
+  const handleExport = async (action: ExportAction) => {
+    let result: PreflightResult;
+    try {
+      result = runPreflight(data, columnErrors, suppressions);
+    } catch (error) {
+      setExportErrors([`Validation failed: ${error instanceof Error ? error.message : 'unknown error'}`]);
+      return;
+    }
+    setExportErrors([]);
+    setPreflight(result);
+    setOverrideConfirmed(false);
+    if (result.blocking.length > 0) {
+      setBlockedAction(action);
+      return;
+    }
+    setBlockedAction(null);
+    await runExport(action, result.errors, result.suppressed);
+  };
+
+  // A failed export leaves the override form up, so it can be tried again
+  const handleOverride = async () => {
+    if (!preflight || !blockedAction) return;
+    const exported = await runExport(
+      blockedAction,
+      preflight.errors,
+      preflight.suppressed,
+      createOverride(overrideBy, preflight.blocking, preflight.suppressed)
+    );
+    if (!exported) return;
+    setBlockedAction(null);
+    setOverrideConfirmed(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <h2 className="text-xl font-semibold">Export Cleaned Data</h2>
+
+      {/* Format */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Format</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          {FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => setConfig(prev => ({ ...prev, format: format.id }))}
+              className={`p-3 rounded-lg border text-left ${
+                config.format === format.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-900">{format.label}</div>
+              <div className="text-xs text-gray-500">{format.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Options */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Include</h3>
+        <div className="space-y-2">
+          {options.map(option => (
+            <label key={option.key} className="flex items-start space-x-2">
+              <input
+                type="checkbox"
+                checked={config[option.key]}
+                onChange={(e) => setConfig(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                className="mt-1"
+              />
+              <span>
+                <span className="text-sm text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.detail}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Contents */}
+      <div className="space-y-2">
+        {COLLECTIONS.map(collection => (
+          <div key={collection} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <h3 className="font-medium">{ENTITY_SCHEMAS[collection].label}</h3>
+            <p className="text-sm text-gray-500">{data[collection].length} records</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Preflight */}
+      {preflight && preflight.blocking.length === 0 && (
+        <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+          <CheckCircle className="h-4 w-4" />
+          <span>
+            Preflight passed at {new Date(preflight.checkedAt).toLocaleTimeString()}: no open errors
+            {preflight.errors.length > 0 && `, ${preflight.errors.length} warnings and notes`}
+            {preflight.suppressed.length > 0 && `; ${preflight.suppressed.length} suppressed ${preflight.suppressed.length === 1 ? 'error is' : 'errors are'} listed in manifest.json`}
+          </span>
+        </div>
+      )}
+
+      {preflight && blockedAction && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg space-y-3">
+          <div className="flex items-center space-x-2 text-sm font-medium text-red-800">
+            <XCircle className="h-4 w-4" />
+            <span>
+              Export blocked: {preflight.blocking.length} {preflight.blocking.length === 1 ? 'error needs' : 'errors need'} resolving first
+            </span>
+          </div>
+          <div className="max-h-60 overflow-y-auto divide-y divide-red-100 bg-white rounded border border-red-100">
+            {preflight.blocking.map(error => (
+              <div key={error.id} className="flex items-start justify-between p-2 text-sm">
+                <div>
+                  <div className="text-gray-900">{error.message}</div>
+                  <div className="text-xs text-gray-500">
+                    {ENTITY_SCHEMAS[ENTITY_COLLECTIONS[error.entityType]].label} {error.entityId} · {error.field}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onSelectError(error)}
+                  className="ml-2 shrink-0 text-xs text-blue-600 hover:text-blue-500"
+                >
+                  Show in grid
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2 pt-2 border-t border-red-200">
+            <p className="text-sm text-red-800">
+              To export anyway, enter your name and confirm. The override and these errors
+              {preflight.suppressed.length > 0 && `, along with ${preflight.suppressed.length} suppressed ${preflight.suppressed.length === 1 ? 'error' : 'errors'},`} are
+              recorded in manifest.json.
+            </p>
+            <input
+              type="text"
+              value={overrideBy}
+              onChange={(e) => setOverrideBy(e.target.value)}
+              placeholder="Your name"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <label className="flex items-start space-x-2 text-sm text-gray-900">
+              <input
+                type="checkbox"
+                checked={overrideConfirmed}
+                onChange={(e) => setOverrideConfirmed(e.target.checked)}
+                className="mt-1"
+              />
+              <span>I am knowingly exporting data with these {preflight.blocking.length} errors</span>
+            </label>
+            <div className="flex justify-end">
+              <button
+                onClick={handleOverride}
+                disabled={!overrideConfirmed || overrideBy.trim() === ''}
+                className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {blockedAction === 'bundle' ? 'Download Bundle Anyway' : `Export ${config.format.toUpperCase()} Anyway`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {exportErrors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {exportErrors.map((error, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end space-x-2">
+        <span className="text-xs text-gray-500">
+          Validation runs again before each export. The bundle adds rules, weights and the report, with a checksummed manifest.
+        </span>
+        <button
+          onClick={() => handleExport('bundle')}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded hover:bg-gray-50"
+        >
+          <Package className="h-4 w-4" />
+          <span>Download Bundle</span>
+        </button>
+        <button
+          onClick={() => handleExport('export')}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          <Download className="h-4 w-4" />
+          <span>Export {config.format.toUpperCase()}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
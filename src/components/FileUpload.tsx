@@ -1,13 +1,43 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { Upload, FileText, Users, Briefcase, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
-import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
-import { FileUploadResult, Client, Worker, Task } from '@/types/data';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Upload, FileText, Users, Briefcase, AlertCircle, AlertTriangle, CheckCircle, FileSpreadsheet, Table, X, Files } from 'lucide-react';
+import { DataEntity, DataSet, FileUploadResult, ValidationError, EntityCollection } from '@/types/data';
+import { COLLECTIONS, ENTITY_SCHEMAS } from '@/lib/schema';
+import { ACCEPTED_FILES, ParseProgress, isSupportedFile } from '@/lib/fileParsing';
+import { PROFILES_FILE, isBundle, readBundle } from '@/lib/bundle';
+import { RestoredSession, bundleMapping, restoreHistory } from '@/lib/session';
+import { parseRulesDocument } from '@/lib/rulesFile';
+import { CsvFormat, describeCsvFormat } from '@/lib/csvFormat';
+import { ParseJob, SheetPreview, UploadSource, createParseJob, isCancellation } from '@/lib/parseJob';
+import { HeaderMapping, HeaderMappingSuggestion, headersOf, unmappedRequiredFields } from '@/lib/headerMapping';
+import { MappingProfile, createProfile, initialMapping, loadProfiles, mergeProfiles, parseProfiles, saveProfiles } from '@/lib/mappingProfiles';
+import { assignSheets, classifyRows, detectMisplacement } from '@/lib/entityDetection';
+import { EditLog, MergeResult, MergeStrategy } from '@/lib/merge';
+import { ProvenanceLog, RowProvenance } from '@/lib/provenance';
+import HeaderMappingReview from '@/components/HeaderMappingReview';
+import MergePreview from '@/components/MergePreview';
+import CsvFormatPreview from '@/components/CsvFormatPreview';
 
 interface FileUploadProps {
-  onDataUpload: (data: { clients: Client[]; workers: Worker[]; tasks: Task[] }) => void;
+  onDataUpload: (
+    data: DataSet,
+    columnErrors: ValidationError[],
+    fileNames: Record<EntityCollection, string>,
+    provenance: ProvenanceLog,
+    profiles: MappingProfile[] // The confirmed mapping of each file
+  ) => void;
+  data: DataSet; // Currently loaded data, target of single-file merges
+  editLog: EditLog;
+  // columnErrors is undefined when the merge keeps the collection's current ones
+  onDataMerge: (
+    collection: EntityCollection,
+    result: MergeResult,
+    columnErrors: ValidationError[] | undefined,
+    fileName: string,
+    provenance: Record<string, RowProvenance> // Of the incoming rows, by their processed id
+  ) => void;
+  onRestoreSession: (session: RestoredSession) => void;
 }
 
 interface FileUploadState {
@@ -16,7 +46,25 @@ interface FileUploadState {
   tasks: File | null;
 }
 
-export default function FileUpload({ onDataUpload }: FileUploadProps) {
+// Processed rows of one entity file waiting for the merge to be confirmed
+interface PendingMerge {
+  collection: EntityCollection;
+  fileName: string;
+  rows: DataEntity[];
+  provenance: Record<string, RowProvenance>;
+  fields: string[]; // Schema fields present in the file
+  columnErrors: ValidationError[];
+  warnings: string[];
+}
+
+// A multi-sheet workbook and which of its sheets holds each entity type
+interface WorkbookState {
+  file: File;
+  sheets: SheetPreview[];
+  assignments: Partial<Record<EntityCollection, string>>;
+}
+
+export default function FileUpload({ onDataUpload, data, editLog, onDataMerge, onRestoreSession }: FileUploadProps) {
   const [files, setFiles] = useState<FileUploadState>({
     clients: null,
     workers: null,
@@ -25,11 +73,217 @@ export default function FileUpload({ onDataUpload }: FileUploadProps) {
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
   const [uploadResult, setUploadResult] = useState<FileUploadResult | null>(null);
   const [dragOver, setDragOver] = useState<string | null>(null);
+  const [workbook, setWorkbook] = useState<WorkbookState | null>(null);
+  const [reviewSources, setReviewSources] = useState<Partial<Record<EntityCollection, UploadSource>> | null>(null);
+  const [mergeTarget, setMergeTarget] = useState<EntityCollection | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [suggestions, setSuggestions] = useState<Partial<Record<EntityCollection, HeaderMappingSuggestion[]>>>({});
+  // Entity type a file dropped on a zone appears to hold instead
+  const [misplaced, setMisplaced] = useState<Partial<Record<EntityCollection, EntityCollection>>>({});
+  const [dropNotes, setDropNotes] = useState<string[]>([]);
+  // Parse progress per file name, and what the upload is currently doing
+  const [progress, setProgress] = useState<Record<string, ParseProgress>>({});
+  const [uploadStep, setUploadStep] = useState('');
+  // Each selected file is parsed once, in its own worker, starting as soon as it is chosen
+  const jobs = useRef(new Map<File, ParseJob>());
+  // Layout each delimited text file was read with, by file name, and the file being previewed
+  const [csvFormats, setCsvFormats] = useState<Record<string, CsvFormat>>({});
+  const [formatFile, setFormatFile] = useState<File | null>(null);
+  // Layouts chosen by the user, used whenever the file is parsed again
+  const csvOverrides = useRef(new Map<File, CsvFormat>());
 
-  const handleFileSelect = useCallback((entityType: keyof FileUploadState, file: File) => {
-    setFiles(prev => ({ ...prev, [entityType]: file }));
+  // Profiles live in localStorage, which is only available after mount
+  useEffect(() => {
+    setProfiles(loadProfiles());
+  }, []);
+
+  useEffect(() => {
+    const activeJobs = jobs.current;
+    return () => activeJobs.forEach(job => job.cancel());
+  }, []);
+
+  const jobFor = useCallback((file: File) => {
+    let job = jobs.current.get(file);
+    if (!job) {
+      job = createParseJob(
+        file,
+        fileProgress => setProgress(prev => ({ ...prev, [file.name]: fileProgress })),
+        csvOverrides.current.get(file)
+      );
+      jobs.current.set(file, job);
+      job.parsed
+        .then(([sheet]) => {
+          const format = sheet?.format;
+          if (format) setCsvFormats(prev => ({ ...prev, [file.name]: format }));
+        })
+        .catch(() => {});
+    }
+    return job;
   }, []);
 
+  // Stops every worker; finished uploads no longer need the rows they hold
+  const releaseJobs = () => {
+    jobs.current.forEach(job => job.cancel());
+    jobs.current.clear();
+    setProgress({});
+  };
+
+  const handleFileSelect = useCallback(async (entityType: keyof FileUploadState, file: File) => {
+    setFiles(prev => ({ ...prev, [entityType]: file }));
+    setMisplaced(prev => ({ ...prev, [entityType]: undefined }));
+
+    // Keep the file where the user put it, but warn if it clearly belongs elsewhere
+    try {
+      const [sheet] = await jobFor(file).parsed;
+      const detected = detectMisplacement(classifyRows(file.name, sheet?.rows || []), entityType);
+      if (detected) setMisplaced(prev => ({ ...prev, [entityType]: detected }));
+    } catch {
+      // Unreadable files are reported when processing starts
+    }
+  }, [jobFor]);
+
+  // Re-parses a delimited text file with the layout picked in the preview
+  const handleApplyFormat = (file: File, format: CsvFormat) => {
+    setFormatFile(null);
+    csvOverrides.current.set(file, format);
+    jobs.current.get(file)?.cancel();
+    jobs.current.delete(file);
+    const zone = COLLECTIONS.find(collection => files[collection] === file);
+    if (zone) handleFileSelect(zone, file);
+    else jobFor(file);
+  };
+
+  // Swaps the two zones' files, so a file already in the target is not lost.
+  // The one it displaces is checked again in its new zone.
+  const handleMoveFile = (from: EntityCollection, to: EntityCollection) => {
+    const displaced = files[to];
+    setFiles(prev => ({ ...prev, [from]: prev[to], [to]: prev[from] }));
+    setMisplaced(prev => ({ ...prev, [from]: undefined, [to]: undefined }));
+    if (displaced) handleFileSelect(from, displaced);
+  };
+
+  // Restores the whole session a bundle was exported from, once its checksums
+  // are verified. Its files were written by this app, so no review is needed.
+  const handleRestoreBundle = async (file: File) => {
+    setUploadStatus('uploading');
+    setUploadStep('Verifying bundle');
+
+    try {
+      const bundle = await readBundle(file);
+      setUploadStep('Processing data');
+      const processed = await Promise.all(COLLECTIONS.map(async collection => {
+        const dataFile = bundle.data[collection];
+        if (!dataFile) throw new Error(`The bundle has no ${ENTITY_SCHEMAS[collection].label.toLowerCase()} data`);
+        const job = jobFor(dataFile);
+        const [sheet] = await job.parsed;
+        return job.process(sheet.name, collection, bundleMapping(headersOf(sheet.rows), collection));
+      }));
+      const [clients, workers, tasks] = processed;
+
+      // Every part is read before anything changes, so a bad file leaves the
+      // current session and saved profiles as they were
+      const rulesFile = bundle.files['rules.json'];
+      const profilesFile = bundle.files[PROFILES_FILE];
+      const rules = rulesFile ? parseRulesDocument(await rulesFile.text()) : null;
+      const bundleProfiles = profilesFile ? parseProfiles(await profilesFile.text()) : [];
+      const data = { clients: clients.rows, workers: workers.rows, tasks: tasks.rows };
+      const session: RestoredSession = {
+        bundleName: file.name,
+        manifest: bundle.manifest,
+        data,
+        columnErrors: processed.flatMap(result => result.columnErrors),
+        ...restoreHistory(
+          bundle.manifest,
+          data,
+          { clients: clients.provenance, workers: workers.provenance, tasks: tasks.provenance },
+          { clients: `${file.name} [clients.csv]`, workers: `${file.name} [workers.csv]`, tasks: `${file.name} [tasks.csv]` }
+        ),
+        rules,
+        profiles: bundleProfiles
+      };
+
+      // Saved too, so the original files map the same way when uploaded again
+      const nextProfiles = mergeProfiles(profiles, bundleProfiles);
+      setProfiles(nextProfiles);
+      saveProfiles(nextProfiles);
+
+      const { override } = bundle.manifest;
+      setUploadResult({
+        success: true,
+        warnings: [
+          `${file.name}: checksums of ${bundle.manifest.files.length} files verified, bundle made ${new Date(bundle.manifest.createdAt).toLocaleString()}`,
+          ...(override ? [`${file.name}: exported by ${override.by} despite ${override.errors.length} open errors`] : []),
+          ...(bundle.manifest.suppressedErrors?.length
+            ? [`${file.name}: exported with ${bundle.manifest.suppressedErrors.length} suppressed errors`]
+            : []),
+          ...processed.flatMap(result => result.warnings)
+        ]
+      });
+      setUploadStatus('success');
+      releaseJobs();
+      onRestoreSession(session);
+    } catch (error) {
+      failUpload(error);
+    }
+  };
+
+  // Sorts any number of files into zones by content. A workbook with several
+  // sheets is handled like one uploaded in the workbook area; a bundle
+  // restores its session instead.
+  const handleFilesDrop = async (dropped: File[]) => {
+    const bundle = dropped.find(isBundle);
+    if (bundle) {
+      setDropNotes(dropped.length > 1 ? [`${bundle.name}: restoring the bundle, the other files were not loaded`] : []);
+      await handleRestoreBundle(bundle);
+      return;
+    }
+
+    // The first file found for a zone takes it; one dropped with it for the same
+    // zone is left out, as two pending files cannot be merged with each other
+    const placed: Partial<Record<EntityCollection, File>> = {};
+    const notes: string[] = [];
+    for (const file of dropped) {
+      try {
+        const sheets = await jobFor(file).parsed;
+        if (sheets.length > 1) {
+          setWorkbook({ file, sheets, assignments: assignSheets(sheets) });
+          notes.push(`${file.name}: workbook with ${sheets.length} sheets, review the sheet assignment below`);
+          continue;
+        }
+
+        const { collection } = classifyRows(file.name, sheets[0]?.rows || []);
+        const first = collection && placed[collection];
+        if (collection && first) {
+          notes.push(
+            `${file.name}: also detected as ${ENTITY_SCHEMAS[collection].label.toLowerCase()}, so it was not loaded; ` +
+            `upload ${first.name} first, then merge ${file.name} into it`
+          );
+        } else if (collection) {
+          const replaced = files[collection];
+          placed[collection] = file;
+          setFiles(prev => ({ ...prev, [collection]: file }));
+          setMisplaced(prev => ({ ...prev, [collection]: undefined }));
+          notes.push(
+            `${file.name}: detected as ${ENTITY_SCHEMAS[collection].label.toLowerCase()}` +
+            (replaced ? `, replacing ${replaced.name}` : '')
+          );
+        } else {
+          notes.push(`${file.name}: could not tell which data it holds, drop it on the matching zone`);
+        }
+      } catch (error) {
+        notes.push(`${file.name}: ${error instanceof Error ? error.message : 'could not be read'}`);
+      }
+    }
+    setDropNotes(notes);
+  };
+
+  const handleMultiDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(null);
+    handleFilesDrop(Array.from(e.dataTransfer.files).filter(file => isSupportedFile(file) || isBundle(file)));
+  };
+
   const handleDragOver = useCallback((e: React.DragEvent, entityType: string) => {
     e.preventDefault();
     setDragOver(entityType);
@@ -45,226 +299,287 @@ export default function FileUpload({ onDataUpload }: FileUploadProps) {
     setDragOver(null);
     
     const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile && (droppedFile.type === 'text/csv' || droppedFile.name.endsWith('.xlsx'))) {
+    if (droppedFile && isSupportedFile(droppedFile)) {
       handleFileSelect(entityType, droppedFile);
     }
   }, [handleFileSelect]);
 
-  const parseFile = async (file: File): Promise<any[]> => {
-    return new Promise((resolve, reject) => {
-      if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
-        Papa.parse(file, {
-          header: true,
-          skipEmptyLines: true,
-          complete: (results) => {
-            if (results.errors.length > 0) {
-              reject(new Error(`CSV parsing errors: ${results.errors.map(e => e.message).join(', ')}`));
-            } else {
-              resolve(results.data);
-            }
-          },
-          error: (error) => reject(error)
-        });
-      } else if (file.name.endsWith('.xlsx')) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          try {
-            const data = new Uint8Array(e.target?.result as ArrayBuffer);
-            const workbook = XLSX.read(data, { type: 'array' });
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            const jsonData = XLSX.utils.sheet_to_json(worksheet);
-            resolve(jsonData);
-          } catch (error) {
-            reject(error);
-          }
-        };
-        reader.readAsArrayBuffer(file);
-      } else {
-        reject(new Error('Unsupported file type'));
-      }
-    });
+  const handleWorkbookSelect = async (file: File) => {
+    try {
+      const sheets = await jobFor(file).parsed;
+      setWorkbook({ file, sheets, assignments: assignSheets(sheets) });
+    } catch (error) {
+      setUploadResult({
+        success: false,
+        errors: [error instanceof Error ? error.message : 'Unknown error occurred']
+      });
+      setUploadStatus('error');
+    }
   };
 
-  const mapHeaders = (rawData: any[], entityType: 'clients' | 'workers' | 'tasks'): any[] => {
-    if (rawData.length === 0) return rawData;
-
-    const firstRow = rawData[0];
-    const headerMapping: Record<string, string> = {};
-
-    // AI-powered header mapping logic
-    const headerMappings = {
-      clients: {
-        'Client ID': 'ClientID',
-        'Client Name': 'ClientName',
-        'Client Group': 'ClientGroup',
-        'Priority Level': 'PriorityLevel',
-        'Requested Task IDs': 'RequestedTaskIDs',
-        'Preferred Phases': 'PreferredPhases',
-        'Max Budget': 'MaxBudget',
-        'Attributes JSON': 'AttributesJSON'
-      },
-      workers: {
-        'Worker ID': 'WorkerID',
-        'Worker Name': 'WorkerName',
-        'Worker Group': 'WorkerGroup',
-        'Skills': 'Skills',
-        'Available Slots': 'AvailableSlots',
-        'Max Load Per Phase': 'MaxLoadPerPhase',
-        'Hourly Rate': 'HourlyRate',
-        'Attributes JSON': 'AttributesJSON'
-      },
-      tasks: {
-        'Task ID': 'TaskID',
-        'Task Name': 'TaskName',
-        'Duration': 'Duration',
-        'Required Skills': 'RequiredSkills',
-        'Preferred Phases': 'PreferredPhases',
-        'Priority Level': 'PriorityLevel',
-        'Dependencies': 'Dependencies',
-        'Max Concurrent': 'MaxConcurrent',
-        'Attributes JSON': 'AttributesJSON'
-      }
-    };
+  const handleWorkbookDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(null);
 
-    const currentMapping = headerMappings[entityType];
-    
-    // Map headers
-    Object.keys(firstRow).forEach(originalHeader => {
-      const normalizedHeader = originalHeader.trim().toLowerCase();
-      
-      // Find the best match
-      for (const [mappedHeader, targetField] of Object.entries(currentMapping)) {
-        if (normalizedHeader.includes(mappedHeader.toLowerCase().replace(/\s+/g, ''))) {
-          headerMapping[originalHeader] = targetField;
-          break;
-        }
-      }
-      
-      // If no match found, keep original
-      if (!headerMapping[originalHeader]) {
-        headerMapping[originalHeader] = originalHeader;
-      }
-    });
+    const droppedFile = e.dataTransfer.files[0];
+    if (droppedFile && (droppedFile.name.endsWith('.xlsx') || droppedFile.name.endsWith('.json'))) {
+      handleWorkbookSelect(droppedFile);
+    }
+  };
 
-    // Transform data with mapped headers
-    return rawData.map(row => {
-      const transformedRow: any = {};
-      Object.keys(row).forEach(key => {
-        const newKey = headerMapping[key];
-        if (newKey) {
-          transformedRow[newKey] = row[key];
-        }
+  // Assigning a sheet to an entity type takes it away from any other type
+  const handleAssignSheet = (sheetName: string, collection: EntityCollection | '') => {
+    setWorkbook(prev => {
+      if (!prev) return prev;
+      const assignments = { ...prev.assignments };
+      COLLECTIONS.forEach(c => {
+        if (assignments[c] === sheetName) delete assignments[c];
       });
-      return transformedRow;
+      if (collection) assignments[collection] = sheetName;
+      return { ...prev, assignments };
     });
   };
 
-  const processData = (rawData: any[], entityType: 'clients' | 'workers' | 'tasks'): any[] => {
-    return rawData.map((row, index) => {
-      const processedRow = { ...row, id: row[`${entityType.slice(0, -1)}ID`] || `temp-${index}` };
-      
-      // Process specific fields based on entity type
-      switch (entityType) {
-        case 'clients':
-          processedRow.RequestedTaskIDs = typeof row.RequestedTaskIDs === 'string' 
-            ? row.RequestedTaskIDs.split(',').map((id: string) => id.trim())
-            : row.RequestedTaskIDs || [];
-          processedRow.PreferredPhases = typeof row.PreferredPhases === 'string'
-            ? row.PreferredPhases.split(',').map((phase: string) => parseInt(phase.trim()))
-            : row.PreferredPhases || [];
-          processedRow.PriorityLevel = parseInt(row.PriorityLevel) || 1;
-          processedRow.MaxBudget = parseFloat(row.MaxBudget) || 0;
-          break;
-          
-        case 'workers':
-          processedRow.Skills = typeof row.Skills === 'string'
-            ? row.Skills.split(',').map((skill: string) => skill.trim())
-            : row.Skills || [];
-          processedRow.AvailableSlots = typeof row.AvailableSlots === 'string'
-            ? row.AvailableSlots.split(',').map((slot: string) => parseInt(slot.trim()))
-            : row.AvailableSlots || [];
-          processedRow.MaxLoadPerPhase = parseInt(row.MaxLoadPerPhase) || 1;
-          processedRow.HourlyRate = parseFloat(row.HourlyRate) || 0;
-          break;
-          
-        case 'tasks':
-          processedRow.RequiredSkills = typeof row.RequiredSkills === 'string'
-            ? row.RequiredSkills.split(',').map((skill: string) => skill.trim())
-            : row.RequiredSkills || [];
-          processedRow.PreferredPhases = typeof row.PreferredPhases === 'string'
-            ? row.PreferredPhases.split(',').map((phase: string) => parseInt(phase.trim()))
-            : row.PreferredPhases || [];
-          processedRow.Dependencies = typeof row.Dependencies === 'string'
-            ? row.Dependencies.split(',').map((dep: string) => dep.trim())
-            : row.Dependencies || [];
-          processedRow.Duration = parseInt(row.Duration) || 1;
-          processedRow.PriorityLevel = parseInt(row.PriorityLevel) || 1;
-          processedRow.MaxConcurrent = parseInt(row.MaxConcurrent) || 1;
-          break;
-      }
-      
-      return processedRow;
+  // A workbook sheet assigned to an entity type takes precedence over its file
+  const hasSource = (collection: EntityCollection) =>
+    Boolean(workbook?.assignments[collection] || files[collection]);
+  const allSourcesReady = COLLECTIONS.every(hasSource);
+  const hasExistingData = COLLECTIONS.some(collection => data[collection].length > 0);
+
+  const loadSource = async (collection: EntityCollection): Promise<UploadSource> => {
+    const sheetName = workbook?.assignments[collection];
+    if (workbook && sheetName) {
+      const sheet = workbook.sheets.find(s => s.name === sheetName);
+      return {
+        fileName: `${workbook.file.name} [${sheetName}]`,
+        sheet: sheetName,
+        rows: sheet ? sheet.rows : [],
+        totalRows: sheet ? sheet.totalRows : 0,
+        job: jobFor(workbook.file)
+      };
+    }
+    const file = files[collection] as File;
+    const job = jobFor(file);
+    const [sheet] = await job.parsed;
+    return { fileName: file.name, sheet: sheet.name, rows: sheet.rows, totalRows: sheet.totalRows, job };
+  };
+
+  const failUpload = (error: unknown) => {
+    if (isCancellation(error)) {
+      setUploadStatus('idle');
+      return;
+    }
+    setUploadResult({
+      success: false,
+      errors: [error instanceof Error ? error.message : 'Unknown error occurred']
     });
+    setUploadStatus('error');
+  };
+
+  const handleCancelUpload = () => {
+    releaseJobs();
+    setReviewSources(null);
+    setUploadStatus('idle');
   };
 
   const handleUpload = async () => {
-    if (!files.clients || !files.workers || !files.tasks) {
+    if (!allSourcesReady) {
       setUploadResult({
         success: false,
-        errors: ['Please upload all three required files: clients, workers, and tasks']
+        errors: ['Please provide clients, workers, and tasks data, either as three files or as sheets of one workbook']
       });
       setUploadStatus('error');
       return;
     }
 
     setUploadStatus('uploading');
+    setUploadStep('Reading files');
     
     try {
-      const results = await Promise.all([
-        parseFile(files.clients),
-        parseFile(files.workers),
-        parseFile(files.tasks)
+      const [clients, workers, tasks] = await Promise.all(COLLECTIONS.map(loadSource));
+      setMergeTarget(null);
+      await startReview({ clients, workers, tasks });
+    } catch (error) {
+      failUpload(error);
+    }
+  };
+
+  // Uploads a single entity file into the current data instead of replacing everything
+  const handleStartMerge = async (collection: EntityCollection) => {
+    setUploadStatus('uploading');
+    setUploadStep('Reading file');
+
+    try {
+      const source = await loadSource(collection);
+      setMergeTarget(collection);
+      await startReview({ [collection]: source });
+    } catch (error) {
+      failUpload(error);
+    }
+  };
+
+  const startReview = async (sources: Partial<Record<EntityCollection, UploadSource>>) => {
+    setUploadStep('Checking column names');
+    // Ask the mapping assistant only where the static mapping falls short
+    const needsHelp = COLLECTIONS.filter(collection => {
+      const source = sources[collection];
+      return source && unmappedRequiredFields(initialMapping(source.rows, collection, profiles).mapping, collection).length > 0;
+    });
+    const results = await Promise.all(needsHelp.map(collection => requestSuggestions(collection, sources[collection] as UploadSource)));
+    setSuggestions(Object.fromEntries(needsHelp.map((collection, i) => [collection, results[i]])));
+
+    setReviewSources(sources);
+  };
+
+  const requestSuggestions = async (collection: EntityCollection, source: UploadSource): Promise<HeaderMappingSuggestion[]> => {
+    try {
+      const response = await fetch('/api/map-headers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          collection,
+          headers: headersOf(source.rows),
+          sampleRows: source.rows.slice(0, 5)
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.suggestions || [];
+    } catch (error) {
+      // The review screen still flags unmapped fields, so carry on without suggestions
+      console.error('Header mapping suggestions failed:', error);
+      return [];
+    }
+  };
+
+  const handleSaveProfile = (profile: MappingProfile) => {
+    const next = [...profiles, profile];
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const handleCancelReview = () => {
+    setReviewSources(null);
+    setUploadStatus('idle');
+  };
+
+  // A single-file upload goes on to the merge preview
+  const prepareMerge = async (collection: EntityCollection, source: UploadSource, mapping?: HeaderMapping) => {
+    const { rows, provenance, fields, columnErrors, warnings } = await source.job.process(source.sheet, collection, mapping);
+    setPendingMerge({ collection, fileName: source.fileName, rows, provenance, fields, columnErrors, warnings });
+  };
+
+  const handleApplyMerge = (result: MergeResult, strategy: MergeStrategy) => {
+    if (!pendingMerge) return;
+    const { collection, fileName, provenance, columnErrors, warnings } = pendingMerge;
+    setPendingMerge(null);
+    releaseJobs();
+    setUploadStatus('success');
+    setUploadResult({
+      success: true,
+      warnings: [
+        `${ENTITY_SCHEMAS[collection].label}: ${result.added.length} added, ${result.removed.length} removed, ${result.changed.length} changed`,
+        ...(strategy === 'replace' ? columnErrors.map(error => error.message) : []),
+        ...warnings
+      ]
+    });
+    // Missing columns only matter when the file replaces the whole collection
+    onDataMerge(collection, result, strategy === 'replace' ? columnErrors : undefined, fileName, provenance);
+  };
+
+  const handleCancelMerge = () => {
+    setPendingMerge(null);
+    setUploadStatus('idle');
+  };
+
+  // Runs once the user has confirmed the header mapping. Mapping and
+  // processing happen in the workers that hold the full rows.
+  const handleConfirmMapping = async (mappings: Partial<Record<EntityCollection, HeaderMapping>>) => {
+    if (!reviewSources) return;
+    const { clients: clientsSource, workers: workersSource, tasks: tasksSource } = reviewSources;
+    setReviewSources(null);
+
+    const totalRows = Object.values(reviewSources).reduce((sum, source) => sum + (source?.totalRows || 0), 0);
+    setUploadStep(`Processing ${totalRows.toLocaleString()} rows`);
+
+    try {
+      const mergeSource = mergeTarget && reviewSources[mergeTarget];
+      if (mergeTarget && mergeSource) {
+        await prepareMerge(mergeTarget, mergeSource, mappings[mergeTarget]);
+        return;
+      }
+      if (!clientsSource || !workersSource || !tasksSource) return;
+
+      const [clientsResult, workersResult, tasksResult] = await Promise.all([
+        clientsSource.job.process(clientsSource.sheet, 'clients', mappings.clients),
+        workersSource.job.process(workersSource.sheet, 'workers', mappings.workers),
+        tasksSource.job.process(tasksSource.sheet, 'tasks', mappings.tasks)
       ]);
 
-      const [clientsRaw, workersRaw, tasksRaw] = results;
-      
-      // Map headers and process data
-      const clients = processData(mapHeaders(clientsRaw, 'clients'), 'clients');
-      const workers = processData(mapHeaders(workersRaw, 'workers'), 'workers');
-      const tasks = processData(mapHeaders(tasksRaw, 'tasks'), 'tasks');
+      const columnErrors = [
+        ...clientsResult.columnErrors,
+        ...workersResult.columnErrors,
+        ...tasksResult.columnErrors
+      ];
+
+      const clients = clientsResult.rows;
+      const workers = workersResult.rows;
+      const tasks = tasksResult.rows;
 
       const result: FileUploadResult = {
         success: true,
         data: { clients, workers, tasks },
-        warnings: []
+        warnings: [
+          ...columnErrors.map(error => error.message),
+          ...clientsResult.warnings,
+          ...workersResult.warnings,
+          ...tasksResult.warnings
+        ]
       };
 
       setUploadResult(result);
       setUploadStatus('success');
+      releaseJobs();
       
       // Pass data to parent component
-      onDataUpload({ clients, workers, tasks });
+      onDataUpload({ clients, workers, tasks }, columnErrors, {
+        clients: clientsSource.fileName,
+        workers: workersSource.fileName,
+        tasks: tasksSource.fileName
+      }, {
+        clients: clientsResult.provenance,
+        workers: workersResult.provenance,
+        tasks: tasksResult.provenance
+      }, COLLECTIONS.flatMap(collection => {
+        const mapping = mappings[collection];
+        const source = reviewSources[collection];
+        return mapping && source ? [createProfile(source.fileName, collection, headersOf(source.rows), mapping)] : [];
+      }));
       
     } catch (error) {
-      setUploadResult({
-        success: false,
-        errors: [error instanceof Error ? error.message : 'Unknown error occurred']
-      });
-      setUploadStatus('error');
+      failUpload(error);
     }
   };
 
   const renderFileUploadArea = (entityType: keyof FileUploadState, label: string, icon: React.ReactNode) => {
     const file = files[entityType];
+    const sheetName = workbook?.assignments[entityType];
     const isDragOver = dragOver === entityType;
+    const detected = misplaced[entityType];
+    const csvFormat = file ? csvFormats[file.name] : undefined;
     
     return (
       <div
         className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
           isDragOver 
             ? 'border-blue-500 bg-blue-50' 
-            : file 
+            : file || sheetName
               ? 'border-green-500 bg-green-50' 
               : 'border-gray-300 hover:border-gray-400'
         }`}
@@ -276,70 +591,300 @@ export default function FileUpload({ onDataUpload }: FileUploadProps) {
           {icon}
           <div>
             <p className="text-sm font-medium text-gray-900">{label}</p>
-            {file ? (
+            {sheetName ? (
+              <div className="flex items-center space-x-2 mt-2">
+                <Table className="h-4 w-4 text-green-500" />
+                <span className="text-sm text-green-600">Sheet &quot;{sheetName}&quot;</span>
+              </div>
+            ) : file ? (
               <div className="flex items-center space-x-2 mt-2">
                 <CheckCircle className="h-4 w-4 text-green-500" />
                 <span className="text-sm text-green-600">{file.name}</span>
               </div>
             ) : (
               <p className="text-sm text-gray-500">
-                Drag and drop CSV or XLSX file here, or{' '}
+                Drag and drop CSV, TSV, JSON or XLSX file here, or{' '}
                 <label className="text-blue-600 hover:text-blue-500 cursor-pointer">
                   browse
                   <input
                     type="file"
                     className="hidden"
-                    accept=".csv,.xlsx"
+                    accept={ACCEPTED_FILES}
                     onChange={(e) => e.target.files?.[0] && handleFileSelect(entityType, e.target.files[0])}
                   />
                 </label>
               </p>
             )}
+            {file && !sheetName && detected && (
+              <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800">
+                <div className="flex items-center justify-center space-x-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  <span>This looks like {ENTITY_SCHEMAS[detected].label.toLowerCase()} data</span>
+                </div>
+                <button
+                  onClick={() => handleMoveFile(entityType, detected)}
+                  className="mt-1 text-blue-600 hover:text-blue-500 font-medium"
+                >
+                  Move to {ENTITY_SCHEMAS[detected].label}
+                </button>
+              </div>
+            )}
+            {file && !sheetName && csvFormat && (
+              <p className="mt-2 text-xs text-gray-600">
+                Read as {describeCsvFormat(csvFormat)}{' · '}
+                <button
+                  onClick={() => setFormatFile(file)}
+                  className="text-blue-600 hover:text-blue-500 font-medium"
+                >
+                  Preview
+                </button>
+              </p>
+            )}
           </div>
         </div>
       </div>
     );
   };
 
+  if (pendingMerge) {
+    return (
+      <MergePreview
+        collection={pendingMerge.collection}
+        fileName={pendingMerge.fileName}
+        existing={data[pendingMerge.collection]}
+        incoming={pendingMerge.rows}
+        incomingFields={pendingMerge.fields}
+        edits={editLog[pendingMerge.collection]}
+        onApply={handleApplyMerge}
+        onCancel={handleCancelMerge}
+      />
+    );
+  }
+
+  if (reviewSources) {
+    return (
+      <HeaderMappingReview
+        sources={reviewSources}
+        profiles={profiles}
+        suggestions={suggestions}
+        onSaveProfile={handleSaveProfile}
+        onConfirm={handleConfirmMapping}
+        onCancel={handleCancelReview}
+      />
+    );
+  }
+
   return (
     <div className="space-y-8">
+      {formatFile && csvFormats[formatFile.name] && (
+        <CsvFormatPreview
+          file={formatFile}
+          format={csvFormats[formatFile.name]}
+          onApply={(format) => handleApplyFormat(formatFile, format)}
+          onCancel={() => setFormatFile(null)}
+        />
+      )}
+
       <div className="text-center">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">Upload Your Data</h1>
         <p className="text-lg text-gray-600">
-          Upload CSV or XLSX files for clients, workers, and tasks. Our AI will help map headers and validate your data.
+          Upload CSV, TSV, JSON or XLSX files for clients, workers, and tasks. Our AI will help map headers and validate your data.
         </p>
       </div>
 
+      {/* Drop any number of files */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+          dragOver === 'multi'
+            ? 'border-blue-500 bg-blue-50'
+            : 'border-gray-300 hover:border-gray-400'
+        }`}
+        onDragOver={(e) => handleDragOver(e, 'multi')}
+        onDragLeave={handleDragLeave}
+        onDrop={handleMultiDrop}
+      >
+        <div className="flex flex-col items-center space-y-2">
+          <Files className="h-8 w-8 text-blue-500" />
+          <p className="text-sm font-medium text-gray-900">Drop all your files at once</p>
+          <p className="text-sm text-gray-500">
+            Each file is sorted into clients, workers or tasks by its contents. Drop an exported bundle (.zip) to restore that whole session. Drag them here, or{' '}
+            <label className="text-blue-600 hover:text-blue-500 cursor-pointer">
+              browse
+              <input
+                type="file"
+                className="hidden"
+                accept={`${ACCEPTED_FILES},.zip`}
+                multiple
+                onChange={(e) => e.target.files && handleFilesDrop(Array.from(e.target.files))}
+              />
+            </label>
+          </p>
+          {dropNotes.length > 0 && (
+            <div className="text-sm text-gray-600 text-left">
+              {dropNotes.map((note, index) => (
+                <p key={index}>• {note}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {renderFileUploadArea('clients', 'Clients Data', <Users className="h-8 w-8 text-blue-500" />)}
         {renderFileUploadArea('workers', 'Workers Data', <Briefcase className="h-8 w-8 text-green-500" />)}
         {renderFileUploadArea('tasks', 'Tasks Data', <FileText className="h-8 w-8 text-purple-500" />)}
       </div>
 
-      <div className="flex justify-center">
-        <button
-          onClick={handleUpload}
-          disabled={!files.clients || !files.workers || !files.tasks || uploadStatus === 'uploading'}
-          className={`px-8 py-3 rounded-lg font-medium text-white flex items-center space-x-2 ${
-            uploadStatus === 'uploading' || (!files.clients || !files.workers || !files.tasks)
-              ? 'bg-gray-400 cursor-not-allowed'
-              : 'bg-blue-600 hover:bg-blue-700'
-          }`}
-        >
-          {uploadStatus === 'uploading' ? (
-            <>
-              <Loader2 className="h-5 w-5 animate-spin" />
-              <span>Processing...</span>
-            </>
-          ) : (
-            <>
-              <Upload className="h-5 w-5" />
-              <span>Process Data</span>
-            </>
-          )}
-        </button>
+      {/* Single workbook upload */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-6 transition-colors ${
+          dragOver === 'workbook'
+            ? 'border-blue-500 bg-blue-50'
+            : workbook
+              ? 'border-green-500 bg-green-50'
+              : 'border-gray-300 hover:border-gray-400'
+        }`}
+        onDragOver={(e) => handleDragOver(e, 'workbook')}
+        onDragLeave={handleDragLeave}
+        onDrop={handleWorkbookDrop}
+      >
+        {workbook ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <FileSpreadsheet className="h-5 w-5 text-green-600" />
+                <span className="text-sm font-medium text-gray-900">{workbook.file.name}</span>
+                <span className="text-sm text-gray-500">{workbook.sheets.length} sheets</span>
+              </div>
+              <button
+                onClick={() => setWorkbook(null)}
+                className="p-1 text-gray-400 hover:text-gray-600"
+                title="Remove workbook"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              Sheets were matched by name and headers. Confirm or change the assignment below; ignored sheets are not loaded.
+            </p>
+            <table className="min-w-full divide-y divide-gray-200 bg-white rounded">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sheet</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contains</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {workbook.sheets.map(sheet => {
+                  const assigned = COLLECTIONS.find(c => workbook.assignments[c] === sheet.name) || '';
+                  return (
+                    <tr key={sheet.name}>
+                      <td className="px-3 py-2 text-sm text-gray-900">{sheet.name}</td>
+                      <td className="px-3 py-2 text-sm text-gray-500">{sheet.totalRows}</td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={assigned}
+                          onChange={(e) => handleAssignSheet(sheet.name, e.target.value as EntityCollection | '')}
+                          className="border border-gray-300 rounded px-2 py-1 text-sm"
+                        >
+                          <option value="">Ignore</option>
+                          {COLLECTIONS.map(c => (
+                            <option key={c} value={c}>{ENTITY_SCHEMAS[c].label}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center space-y-2 text-center">
+            <FileSpreadsheet className="h-8 w-8 text-gray-400" />
+            <p className="text-sm font-medium text-gray-900">Or one workbook with a sheet per entity</p>
+            <p className="text-sm text-gray-500">
+              Drag and drop an XLSX workbook or a combined JSON document here, or{' '}
+              <label className="text-blue-600 hover:text-blue-500 cursor-pointer">
+                browse
+                <input
+                  type="file"
+                  className="hidden"
+                  accept=".xlsx,.json"
+                  onChange={(e) => e.target.files?.[0] && handleWorkbookSelect(e.target.files[0])}
+                />
+              </label>
+            </p>
+          </div>
+        )}
       </div>
 
+      {/* Merge a single file into the loaded data */}
+      {hasExistingData && (
+        <div className="bg-white rounded-lg shadow p-4">
+          <h3 className="font-medium text-gray-900">Update Current Data</h3>
+          <p className="text-sm text-gray-500 mb-3">
+            Merge one file into the data already loaded instead of replacing everything. You can preview the changes first.
+          </p>
+          <div className="flex space-x-3">
+            {COLLECTIONS.map(collection => (
+              <button
+                key={collection}
+                onClick={() => handleStartMerge(collection)}
+                disabled={!hasSource(collection) || uploadStatus === 'uploading'}
+                className="px-4 py-2 text-sm rounded-lg border border-blue-600 text-blue-600 hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:hover:bg-transparent"
+              >
+                Merge {ENTITY_SCHEMAS[collection].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {uploadStatus === 'uploading' ? (
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-900">{uploadStep}...</span>
+            <button
+              onClick={handleCancelUpload}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+          {Object.entries(progress).map(([fileName, fileProgress]) => (
+            <div key={fileName}>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>{fileName}</span>
+                <span>{fileProgress.rows.toLocaleString()} rows · {Math.round(fileProgress.fraction * 100)}%</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all"
+                  style={{ width: `${Math.round(fileProgress.fraction * 100)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex justify-center">
+          <button
+            onClick={handleUpload}
+            disabled={!allSourcesReady}
+            className={`px-8 py-3 rounded-lg font-medium text-white flex items-center space-x-2 ${
+              !allSourcesReady
+                ? 'bg-gray-400 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            <Upload className="h-5 w-5" />
+            <span>Process Data</span>
+          </button>
+        </div>
+      )}
+
       {uploadResult && (
         <div className={`p-4 rounded-lg ${
           uploadResult.success ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
@@ -371,7 +916,7 @@ export default function FileUpload({ onDataUpload }: FileUploadProps) {
                 </div>
               )}
               {uploadResult.warnings && uploadResult.warnings.length > 0 && (
-                <div className="mt-2 text-sm text-yellow-700">
+                <div className="mt-2 text-sm text-yellow-700 max-h-64 overflow-y-auto">
                   {uploadResult.warnings.map((warning, index) => (
                     <p key={index}>• {warning}</p>
                   ))}
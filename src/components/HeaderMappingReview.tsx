@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { AlertCircle, CheckCircle, Save, ArrowLeft, Lightbulb } from 'lucide-react';
+import { EntityCollection } from '@/types/data';
+import { COLLECTIONS, ENTITY_SCHEMAS, getFieldSchema } from '@/lib/schema';
+import { UploadSource } from '@/lib/parseJob';
+import {
+  HeaderMapping,
+  HeaderMappingSuggestion,
+  MappingProposal,
+  fieldConfidence,
+  headersOf,
+  proposeMapping,
+  unmappedRequiredFields
+} from '@/lib/headerMapping';
+import { MappingProfile, createProfile, initialMapping } from '@/lib/mappingProfiles';
+
+interface HeaderMappingReviewProps {
+  sources: Partial<Record<EntityCollection, UploadSource>>; // Only the entity types being uploaded
+  profiles: MappingProfile[];
+  suggestions: Partial<Record<EntityCollection, HeaderMappingSuggestion[]>>; // From /api/map-headers
+  onSaveProfile: (profile: MappingProfile) => void;
+  onConfirm: (mappings: Partial<Record<EntityCollection, HeaderMapping>>) => void;
+  onCancel: () => void;
+}
+
+const confidenceClass = (confidence: number) => {
+  if (confidence >= 0.85) return 'bg-green-100 text-green-800';
+  if (confidence >= 0.65) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+export default function HeaderMappingReview({
+  sources,
+  profiles,
+  suggestions,
+  onSaveProfile,
+  onConfirm,
+  onCancel
+}: HeaderMappingReviewProps) {
+  const collections = COLLECTIONS.filter(collection => sources[collection]);
+  const rowsOf = (collection: EntityCollection) => sources[collection]?.rows || [];
+  const [activeEntity, setActiveEntity] = useState<EntityCollection>(collections[0]);
+  const [profileName, setProfileName] = useState('');
+
+  const proposals = useMemo(() => {
+    const result: Partial<Record<EntityCollection, MappingProposal[]>> = {};
+    COLLECTIONS.forEach(collection => {
+      const source = sources[collection];
+      if (source) result[collection] = proposeMapping(source.rows, collection);
+    });
+    return result;
+  }, [sources]);
+
+  // Profiles saved for the same header set win over the automatic proposal;
+  // AI suggestions only fill columns that are still unmapped
+  const [initial] = useState(() => {
+    const appliedProfiles: Partial<Record<EntityCollection, MappingProfile>> = {};
+    const mappings: Partial<Record<EntityCollection, HeaderMapping>> = {};
+    collections.forEach(collection => {
+      const { mapping, profile } = initialMapping(rowsOf(collection), collection, profiles);
+      if (profile) appliedProfiles[collection] = profile;
+
+      const used = new Set(Object.values(mapping));
+      (suggestions[collection] || []).forEach(suggestion => {
+        if (!suggestion.target || mapping[suggestion.header] || used.has(suggestion.target)) return;
+        mapping[suggestion.header] = suggestion.target;
+        used.add(suggestion.target);
+      });
+      mappings[collection] = mapping;
+    });
+    return { appliedProfiles, mappings };
+  });
+  const appliedProfiles = initial.appliedProfiles;
+  const [mappings, setMappings] = useState(initial.mappings);
+
+  const missingRequired = useMemo(() => {
+    const result: Partial<Record<EntityCollection, string[]>> = {};
+    Object.entries(mappings).forEach(([collection, mapping]) => {
+      result[collection as EntityCollection] = unmappedRequiredFields(mapping, collection as EntityCollection).map(field => field.name);
+    });
+    return result;
+  }, [mappings]);
+
+  const mapping = mappings[activeEntity] || {};
+  const activeMissing = missingRequired[activeEntity] || [];
+  const fields = ENTITY_SCHEMAS[activeEntity].fields;
+
+  // Each field can only be the target of one column, so a new choice releases it elsewhere
+  const handleChangeTarget = (header: string, target: string | null) => {
+    setMappings(prev => {
+      const next = { ...prev[activeEntity] };
+      Object.keys(next).forEach(key => {
+        if (target && next[key] === target) next[key] = null;
+      });
+      next[header] = target;
+      return { ...prev, [activeEntity]: next };
+    });
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileName.trim()) return;
+    onSaveProfile(createProfile(
+      profileName.trim(),
+      activeEntity,
+      headersOf(rowsOf(activeEntity)),
+      mapping
+    ));
+    setProfileName('');
+  };
+
+  const confidenceOf = (proposal: MappingProposal) => {
+    const target = mapping[proposal.header];
+    const field = target ? getFieldSchema(activeEntity, target) : undefined;
+    return field ? fieldConfidence(proposal.header, proposal.sampleType, field) : null;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header */}
+      <div className="p-6 border-b">
+        <h2 className="text-xl font-semibold text-gray-900">Review Column Mapping</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Check how each column of your files maps to the expected fields. Confidence combines name similarity with the kind of values found in the column.
+        </p>
+        <div className="flex space-x-4 mt-4">
+          {collections.map(collection => (
+            <button
+              key={collection}
+              onClick={() => setActiveEntity(collection)}
+              className={`px-4 py-2 rounded-lg font-medium flex items-center space-x-2 ${
+                activeEntity === collection
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              <span>{ENTITY_SCHEMAS[collection].label}</span>
+              {(missingRequired[collection] || []).length > 0 ? (
+                <AlertCircle className="h-4 w-4 text-red-500" />
+              ) : (
+                <CheckCircle className="h-4 w-4 text-green-500" />
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>
+            {sources[activeEntity]?.fileName} · {sources[activeEntity]?.totalRows.toLocaleString()} rows
+          </span>
+          {appliedProfiles[activeEntity] && (
+            <span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800 text-xs">
+              Profile applied: {appliedProfiles[activeEntity]?.name}
+            </span>
+          )}
+        </div>
+
+        {/* Unmapped required fields */}
+        {activeMissing.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Required fields without a column: {activeMissing.join(', ')}
+          </div>
+        )}
+
+        {/* Mapping table */}
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source Column</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sample Values</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Detected Type</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Maps To</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Confidence</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {(proposals[activeEntity] || []).map(proposal => {
+                const confidence = confidenceOf(proposal);
+                const suggestion = suggestions[activeEntity]?.find(s => s.header === proposal.header);
+                return (
+                  <tr key={proposal.header}>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">
+                      {proposal.header}
+                      {suggestion?.target && suggestion.rationale && (
+                        <p className="flex items-center space-x-1 text-xs font-normal text-purple-700 mt-1">
+                          <Lightbulb className="h-3 w-3 flex-shrink-0" />
+                          <span>{suggestion.rationale}</span>
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500 max-w-xs truncate" title={proposal.samples.join(' | ')}>
+                      {proposal.samples.slice(0, 3).join(' | ')}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{proposal.sampleType}</td>
+                    <td className="px-4 py-2">
+                      <select
+                        value={mapping[proposal.header] || ''}
+                        onChange={(e) => handleChangeTarget(proposal.header, e.target.value || null)}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                      >
+                        <option value="">Not mapped (kept as is)</option>
+                        {fields.map(field => (
+                          <option key={field.name} value={field.name}>
+                            {field.label}{field.required ? ' *' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      {confidence !== null && (
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${confidenceClass(confidence)}`}>
+                          {Math.round(confidence * 100)}%
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Save profile */}
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder={`Profile name for these ${activeEntity} headers`}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg"
+          />
+          <button
+            onClick={handleSaveProfile}
+            disabled={!profileName.trim()}
+            className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 flex items-center space-x-2"
+          >
+            <Save className="h-4 w-4" />
+            <span>Save Profile</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="p-6 border-t flex justify-between">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back</span>
+        </button>
+        <button
+          onClick={() => onConfirm(mappings)}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          Confirm Mapping & Process
+        </button>
+      </div>
+    </div>
+  );
+}
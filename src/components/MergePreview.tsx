@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { ArrowRight, Plus, Minus, Edit3 } from 'lucide-react';
+import { DataEntity, EntityCollection } from '@/types/data';
+import { ENTITY_SCHEMAS } from '@/lib/schema';
+import { MergeResult, MergeStrategy, mergeRows } from '@/lib/merge';
+
+interface MergePreviewProps {
+  collection: EntityCollection;
+  fileName: string;
+  existing: DataEntity[];
+  incoming: DataEntity[];
+  incomingFields: string[];
+  edits: Record<string, string[]>;
+  onApply: (result: MergeResult, strategy: MergeStrategy) => void;
+  onCancel: () => void;
+}
+
+const STRATEGIES: { id: MergeStrategy; label: string; description: string }[] = [
+  { id: 'upsert', label: 'Upsert', description: 'Update matching IDs and add new ones; nothing is removed' },
+  { id: 'append', label: 'Append only', description: 'Add rows with new IDs; existing rows are left alone' },
+  { id: 'replace', label: 'Replace all', description: 'The file becomes the full list; rows missing from it are removed' }
+];
+
+const formatValue = (value: unknown) => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value ?? '');
+};
+
+export default function MergePreview({
+  collection,
+  fileName,
+  existing,
+  incoming,
+  incomingFields,
+  edits,
+  onApply,
+  onCancel
+}: MergePreviewProps) {
+  const [strategy, setStrategy] = useState<MergeStrategy>('upsert');
+  const [overwriteEdits, setOverwriteEdits] = useState(false);
+
+  const schema = ENTITY_SCHEMAS[collection];
+  const result = useMemo(
+    () => mergeRows(existing, incoming, collection, strategy, edits, overwriteEdits, incomingFields),
+    [existing, incoming, collection, strategy, edits, overwriteEdits, incomingFields]
+  );
+
+  const keptEdits = result.changed.reduce((sum, row) => sum + row.changes.filter(change => change.keptEdit).length, 0);
+  const hasEdits = Object.values(edits).some(fields => fields.length > 0);
+  const total = result.added.length + result.removed.length + result.changed.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h3 className="text-lg font-semibold text-gray-900">Merge {schema.label}</h3>
+          <p className="text-sm text-gray-500">
+            {fileName} into {existing.length} current {schema.label.toLowerCase()}, matched by {schema.idField}.
+          </p>
+
+          {/* Strategy */}
+          <div className="grid grid-cols-3 gap-2 mt-3">
+            {STRATEGIES.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setStrategy(option.id)}
+                className={`p-2 rounded-lg border text-left ${
+                  strategy === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                <div className="text-xs text-gray-500">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {hasEdits && strategy !== 'append' && (
+            <label className="flex items-center space-x-2 mt-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={overwriteEdits}
+                onChange={(e) => setOverwriteEdits(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span>Overwrite values I edited in the grid</span>
+            </label>
+          )}
+
+          <div className="flex space-x-4 mt-3 text-sm">
+            <span className="text-green-700">{result.added.length} added</span>
+            <span className="text-red-700">{result.removed.length} removed</span>
+            <span className="text-blue-700">{result.changed.length} changed</span>
+            {keptEdits > 0 && <span className="text-yellow-700">{keptEdits} edited values kept</span>}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-200">
+          {result.added.map(row => (
+            <div key={`added-${row.id}`} className="p-3 text-sm flex items-center space-x-2">
+              <Plus className="h-4 w-4 text-green-600" />
+              <span className="font-medium text-gray-900">{formatValue(row[schema.idField])}</span>
+              <span className="text-gray-500">{formatValue(row[schema.nameField])}</span>
+            </div>
+          ))}
+          {result.removed.map(row => (
+            <div key={`removed-${row.id}`} className="p-3 text-sm flex items-center space-x-2">
+              <Minus className="h-4 w-4 text-red-600" />
+              <span className="font-medium text-gray-900 line-through">{formatValue(row[schema.idField])}</span>
+              <span className="text-gray-500">{formatValue(row[schema.nameField])}</span>
+            </div>
+          ))}
+          {result.changed.map(row => (
+            <div key={`changed-${row.id}`} className="p-3 text-sm">
+              <div className="flex items-center space-x-2 font-medium text-gray-900">
+                <Edit3 className="h-4 w-4 text-blue-600" />
+                <span>{row.businessId}</span>
+              </div>
+              {row.changes.map(change => (
+                <div key={change.field} className="flex items-center space-x-2 mt-1 ml-6 text-xs">
+                  <span className="w-32 text-gray-500">{change.field}</span>
+                  <span className={`px-2 py-0.5 rounded ${change.keptEdit ? 'bg-yellow-50 text-yellow-800' : 'bg-red-50 text-red-700 line-through'}`}>
+                    {formatValue(change.before)}
+                  </span>
+                  <ArrowRight className="h-3 w-3 text-gray-400" />
+                  <span className={`px-2 py-0.5 rounded ${change.keptEdit ? 'bg-gray-50 text-gray-400 line-through' : 'bg-green-50 text-green-700'}`}>
+                    {formatValue(change.after)}
+                  </span>
+                  {change.keptEdit && <span className="text-yellow-700">edited, kept</span>}
+                </div>
+              ))}
+            </div>
+          ))}
+          {total === 0 && (
+            <p className="p-6 text-center text-sm text-gray-500">The file matches the current data; nothing will change.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(result, strategy)}
+            disabled={total === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            Apply Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 'use client';
 
 import { useState } from 'react';
-import { Plus, Settings, MessageSquare, Lightbulb, Save, Trash2, Copy, Check } from 'lucide-react';
+import { Plus, Settings, MessageSquare, Lightbulb, Save, Trash2, Copy, Check, Upload, X, AlertTriangle } from 'lucide-react';
 import { BusinessRule, DataEntity } from '@/types/data';
+import { RULES_SCHEMA_VERSION, RulesImport, parseRulesDocument, ruleProblem } from '@/lib/rulesFile';
+import { datasetFingerprint } from '@/lib/hashing';
 
 interface RuleBuilderProps {
   data: {
@@ -12,6 +14,17 @@ interface RuleBuilderProps {
   };
   rules: BusinessRule[];
   setRules: (rules: BusinessRule[]) => void;
+  onImport: (imported: RulesImport) => void;
+}
+
+// Outcome of the last rules.json import, shown until dismissed
+interface ImportSummary {
+  fileName: string;
+  imported: number;
+  migratedFrom?: number;
+  rejected: RulesImport['rejected'];
+  warnings: string[];
+  error?: string;
 }
 
 interface RuleFormData {
@@ -24,7 +37,39 @@ interface RuleFormData {
   naturalLanguage?: string;
 }
 
-export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps) {
+const splitList = (text: string) => text.split(',').map(item => item.trim());
+
+// Imported rules may hold text where a list belongs; it is shown as typed
+// until edited, and ruleProblem flags the rule meanwhile
+const listText = (value: unknown) => (Array.isArray(value) ? value.join(', ') : typeof value === 'string' ? value : '');
+
+const listItems = (value: unknown) => (Array.isArray(value) ? value.filter(item => item !== '') : value);
+
+// Form values as a rule stores them: empty list entries from a trailing comma
+// dropped, phases as numbers, and the defaults the form shows filled in
+const toRuleParameters = (type: BusinessRule['type'], parameters: Record<string, unknown>): Record<string, unknown> => {
+  switch (type) {
+    case 'coRun':
+      return { ...parameters, taskIds: listItems(parameters.taskIds) };
+    case 'slotRestriction':
+      return { ...parameters, groupType: parameters.groupType || 'client' };
+    case 'phaseWindow': {
+      const phases = listItems(parameters.allowedPhases);
+      return { ...parameters, allowedPhases: Array.isArray(phases) ? phases.map(Number) : phases };
+    }
+    case 'precedenceOverride':
+      return {
+        ...parameters,
+        globalRules: listItems(parameters.globalRules) ?? [],
+        specificRules: parameters.specificRules ?? {},
+        priorityOrder: listItems(parameters.priorityOrder) ?? []
+      };
+    default:
+      return parameters;
+  }
+};
+
+export default function RuleBuilder({ data, rules, setRules, onImport }: RuleBuilderProps) {
   const [activeTab, setActiveTab] = useState<'visual' | 'natural'>('visual');
   const [showForm, setShowForm] = useState(false);
   const [editingRule, setEditingRule] = useState<BusinessRule | null>(null);
@@ -38,6 +83,7 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
   });
   const [naturalLanguageInput, setNaturalLanguageInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
 
   const ruleTypes = [
     {
@@ -105,7 +151,11 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
     setShowForm(true);
   };
 
+  const formParameters = toRuleParameters(formData.type, formData.parameters);
+  const formProblem = ruleProblem({ type: formData.type, name: formData.name, parameters: formParameters });
+
   const handleSaveRule = () => {
+    if (formProblem) return;
     const newRule: BusinessRule = {
       id: editingRule?.id || `rule-${Date.now()}`,
       type: formData.type,
@@ -113,7 +163,7 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
       description: formData.description,
       enabled: formData.enabled,
       priority: formData.priority,
-      parameters: formData.parameters,
+      parameters: formParameters,
       naturalLanguage: formData.naturalLanguage
     };
 
@@ -131,6 +181,33 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
     setRules(rules.filter(rule => rule.id !== ruleId));
   };
 
+  const handleImportFile = async (file: File) => {
+    try {
+      const imported = parseRulesDocument(await file.text());
+      const warnings = [...imported.warnings];
+      const hasData = data.clients.length + data.workers.length + data.tasks.length > 0;
+      if (imported.dataset && hasData && imported.dataset.fingerprint !== await datasetFingerprint(data)) {
+        warnings.push('These rules were saved against different data than is loaded now; check the IDs they refer to');
+      }
+      onImport(imported);
+      setImportSummary({
+        fileName: file.name,
+        imported: imported.rules.length,
+        migratedFrom: imported.schemaVersion < RULES_SCHEMA_VERSION ? imported.schemaVersion : undefined,
+        rejected: imported.rejected,
+        warnings
+      });
+    } catch (error) {
+      setImportSummary({
+        fileName: file.name,
+        imported: 0,
+        rejected: [],
+        warnings: [],
+        error: error instanceof Error ? error.message : 'The file could not be read'
+      });
+    }
+  };
+
   const handleNaturalLanguageSubmit = async () => {
     if (!naturalLanguageInput.trim()) return;
 
@@ -157,6 +234,41 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
   };
 
   const renderRuleForm = () => {
+    const setParameter = (key: string, value: unknown) => setFormData(prev => ({
+      ...prev,
+      parameters: { ...prev.parameters, [key]: value }
+    }));
+
+    const renderTextInput = (key: string, label: string, placeholder: string) => (
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          {label}
+        </label>
+        <input
+          type="text"
+          value={formData.parameters[key] || ''}
+          onChange={(e) => setParameter(key, e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder={placeholder}
+        />
+      </div>
+    );
+
+    const renderListInput = (key: string, label: string, placeholder: string) => (
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          {label} (comma-separated)
+        </label>
+        <input
+          type="text"
+          value={listText(formData.parameters[key])}
+          onChange={(e) => setParameter(key, splitList(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder={placeholder}
+        />
+      </div>
+    );
+
     const renderParameterInputs = () => {
       switch (formData.type) {
         case 'coRun':
@@ -168,12 +280,12 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
                 </label>
                 <input
                   type="text"
-                  value={formData.parameters.taskIds?.join(', ') || ''}
+                  value={listText(formData.parameters.taskIds)}
                   onChange={(e) => setFormData(prev => ({
                     ...prev,
                     parameters: {
                       ...prev.parameters,
-                      taskIds: e.target.value.split(',').map(id => id.trim())
+                      taskIds: splitList(e.target.value)
                     }
                   }))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -286,10 +398,27 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
             </div>
           );
 
-        default:
+        case 'phaseWindow':
           return (
-            <div className="text-gray-500 text-sm">
-              Parameter configuration for this rule type will be implemented soon.
+            <div className="space-y-4">
+              {renderTextInput('taskId', 'Task ID', 'T1')}
+              {renderListInput('allowedPhases', 'Allowed Phases', '1, 2, 3')}
+            </div>
+          );
+
+        case 'patternMatch':
+          return (
+            <div className="space-y-4">
+              {renderTextInput('regex', 'Regular Expression', '^T1[0-9]$')}
+              {renderTextInput('ruleTemplate', 'Rule Template', 'Rule applied to matching IDs')}
+            </div>
+          );
+
+        case 'precedenceOverride':
+          return (
+            <div className="space-y-4">
+              {renderListInput('globalRules', 'Global Rule IDs', 'rule-1, rule-2')}
+              {renderListInput('priorityOrder', 'Priority Order', 'rule-2, rule-1')}
             </div>
           );
       }
@@ -384,7 +513,10 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
             </div>
           </div>
 
-          <div className="p-6 border-t flex justify-end space-x-3">
+          <div className="p-6 border-t flex items-center justify-end space-x-3">
+            {formProblem && (
+              <span className="flex-1 text-sm text-yellow-700">Cannot save yet: {formProblem}</span>
+            )}
             <button
               onClick={() => setShowForm(false)}
               className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
@@ -393,7 +525,8 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
             </button>
             <button
               onClick={handleSaveRule}
-              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center space-x-2"
+              disabled={!!formProblem}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
             >
               <Save className="h-4 w-4" />
               <span>Save Rule</span>
@@ -412,15 +545,72 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
           <h2 className="text-2xl font-bold text-gray-900">Business Rules</h2>
           <p className="text-gray-600">Create rules to control how your data is processed and allocated.</p>
         </div>
-        <button
-          onClick={handleCreateRule}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Create Rule</span>
-        </button>
+        <div className="flex items-center space-x-2">
+          <label className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center space-x-2 cursor-pointer">
+            <Upload className="h-4 w-4" />
+            <span>Import rules.json</span>
+            <input
+              type="file"
+              className="hidden"
+              accept=".json,application/json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={handleCreateRule}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Create Rule</span>
+          </button>
+        </div>
       </div>
 
+      {/* Import result */}
+      {importSummary && (
+        <div className={`p-4 rounded-lg border ${
+          importSummary.error || importSummary.rejected.length > 0
+            ? 'bg-yellow-50 border-yellow-200'
+            : 'bg-green-50 border-green-200'
+        }`}>
+          <div className="flex items-start justify-between">
+            <div className="text-sm">
+              {importSummary.error ? (
+                <p className="font-medium text-red-700">{importSummary.fileName}: {importSummary.error}</p>
+              ) : (
+                <p className="font-medium text-gray-900">
+                  Imported {importSummary.imported} {importSummary.imported === 1 ? 'rule' : 'rules'} from {importSummary.fileName}
+                  {importSummary.migratedFrom !== undefined && ` (upgraded from format version ${importSummary.migratedFrom})`}
+                </p>
+              )}
+              {importSummary.rejected.length > 0 && (
+                <div className="mt-2">
+                  <p className="text-yellow-800">{importSummary.rejected.length} rules were rejected:</p>
+                  <ul className="mt-1 space-y-1 text-yellow-800">
+                    {importSummary.rejected.map(entry => (
+                      <li key={entry.index}>• {entry.name}: {entry.reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {importSummary.warnings.map((warning, index) => (
+                <p key={index} className="mt-1 text-yellow-800">{warning}</p>
+              ))}
+            </div>
+            <button
+              onClick={() => setImportSummary(null)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="border-b border-gray-200">
         <nav className="-mb-px flex space-x-8">
@@ -483,51 +673,60 @@ export default function RuleBuilder({ data, rules, setRules }: RuleBuilderProps)
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Existing Rules</h3>
               <div className="space-y-3">
-                {rules.map(rule => (
-                  <div
-                    key={rule.id}
-                    className="p-4 border border-gray-200 rounded-lg hover:border-gray-300"
-                  >
-                    <div className="flex items-center justify-between">
-                      <div className="flex-1">
+                {rules.map(rule => {
+                  const problem = ruleProblem(rule);
+                  return (
+                    <div
+                      key={rule.id}
+                      className="p-4 border border-gray-200 rounded-lg hover:border-gray-300"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-2">
+                            <h4 className="font-medium text-gray-900">{rule.name}</h4>
+                            <span className={`px-2 py-1 text-xs rounded-full ${
+                              rule.enabled 
+                                ? 'bg-green-100 text-green-800' 
+                                : 'bg-gray-100 text-gray-800'
+                            }`}>
+                              {rule.enabled ? 'Active' : 'Inactive'}
+                            </span>
+                            <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full">
+                              Priority {rule.priority}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-600 mt-1">{rule.description}</p>
+                          {problem && (
+                            <p className="text-xs text-yellow-700 mt-1">
+                              <AlertTriangle className="h-3 w-3 inline mr-1" />
+                              Incomplete, edit to finish: {problem}
+                            </p>
+                          )}
+                          {rule.naturalLanguage && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              <Lightbulb className="h-3 w-3 inline mr-1" />
+                              AI Generated: "{rule.naturalLanguage}"
+                            </p>
+                          )}
+                        </div>
                         <div className="flex items-center space-x-2">
-                          <h4 className="font-medium text-gray-900">{rule.name}</h4>
-                          <span className={`px-2 py-1 text-xs rounded-full ${
-                            rule.enabled 
-                              ? 'bg-green-100 text-green-800' 
-                              : 'bg-gray-100 text-gray-800'
-                          }`}>
-                            {rule.enabled ? 'Active' : 'Inactive'}
-                          </span>
-                          <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full">
-                            Priority {rule.priority}
-                          </span>
+                          <button
+                            onClick={() => handleEditRule(rule)}
+                            className="p-2 text-gray-400 hover:text-gray-600"
+                          >
+                            <Settings className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteRule(rule.id)}
+                            className="p-2 text-red-400 hover:text-red-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
                         </div>
-                        <p className="text-sm text-gray-600 mt-1">{rule.description}</p>
-                        {rule.naturalLanguage && (
-                          <p className="text-xs text-gray-500 mt-1">
-                            <Lightbulb className="h-3 w-3 inline mr-1" />
-                            AI Generated: "{rule.naturalLanguage}"
-                          </p>
-                        )}
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <button
-                          onClick={() => handleEditRule(rule)}
-                          className="p-2 text-gray-400 hover:text-gray-600"
-                        >
-                          <Settings className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDeleteRule(rule.id)}
-                          className="p-2 text-red-400 hover:text-red-600"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           )}
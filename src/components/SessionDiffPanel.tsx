@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowRight, Plus, Minus, Edit3, History, X } from 'lucide-react';
+import { EntityCollection } from '@/types/data';
+import { COLLECTIONS, ENTITY_SCHEMAS } from '@/lib/schema';
+import { SessionDiff } from '@/lib/session';
+
+interface SessionDiffPanelProps {
+  diff: SessionDiff;
+  onDismiss: () => void;
+}
+
+const formatValue = (value: unknown) => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value ?? '');
+};
+
+export default function SessionDiffPanel({ diff, onDismiss }: SessionDiffPanelProps) {
+  const [activeCollection, setActiveCollection] = useState<EntityCollection>(
+    COLLECTIONS.find(collection => {
+      const { added, removed, changed } = diff.data[collection];
+      return added.length + removed.length + changed.length > 0;
+    }) || 'clients'
+  );
+
+  const schema = ENTITY_SCHEMAS[activeCollection];
+  const { added, removed, changed } = diff.data[activeCollection];
+  const ruleChanges = [
+    ...diff.rules.added.map(name => `added "${name}"`),
+    ...diff.rules.removed.map(name => `removed "${name}"`),
+    ...diff.rules.changed.map(name => `changed "${name}"`)
+  ];
+
+  const historyNotes = COLLECTIONS.map(collection => {
+    const { restored, sources, editedFields } = diff.history[collection];
+    const label = ENTITY_SCHEMAS[collection].label;
+    return restored
+      ? `${label}: ${sources} ${sources === 1 ? 'row' : 'rows'} traced to the original files, ${editedFields} edited ${editedFields === 1 ? 'field' : 'fields'}`
+      : `${label}: not recorded in the bundle, rows point at its own files`;
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-4 border-b">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-blue-500" />
+            <h3 className="text-lg font-semibold text-gray-900">Session restored from {diff.bundleName}</h3>
+          </div>
+          <button onClick={onDismiss} className="p-1 text-gray-400 hover:text-gray-600" title="Dismiss">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Compared with what was loaded before, matched by ID. Validation has been run again on the restored data.
+        </p>
+
+        <div className="grid grid-cols-3 gap-2 mt-3">
+          {COLLECTIONS.map(collection => {
+            const counts = diff.data[collection];
+            return (
+              <button
+                key={collection}
+                onClick={() => setActiveCollection(collection)}
+                className={`p-2 rounded-lg border text-left ${
+                  activeCollection === collection ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="text-sm font-medium text-gray-900">{ENTITY_SCHEMAS[collection].label}</div>
+                <div className="flex space-x-3 text-xs">
+                  <span className="text-green-700">{counts.added.length} added</span>
+                  <span className="text-red-700">{counts.removed.length} removed</span>
+                  <span className="text-blue-700">{counts.changed.length} changed</span>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="mt-3 text-sm text-gray-700 space-y-1">
+          <p>Rules: {ruleChanges.length > 0 ? ruleChanges.join(', ') : 'unchanged'}</p>
+          <p>Prioritization weights: {diff.weightsChanged ? 'changed' : 'unchanged'}</p>
+          <p>Row sources and edits: {historyNotes.join('; ')}</p>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto divide-y divide-gray-200">
+        {added.map(row => (
+          <div key={`added-${row.id}`} className="p-3 text-sm flex items-center space-x-2">
+            <Plus className="h-4 w-4 text-green-600" />
+            <span className="font-medium text-gray-900">{formatValue(row[schema.idField])}</span>
+            <span className="text-gray-500">{formatValue(row[schema.nameField])}</span>
+          </div>
+        ))}
+        {removed.map(row => (
+          <div key={`removed-${row.id}`} className="p-3 text-sm flex items-center space-x-2">
+            <Minus className="h-4 w-4 text-red-600" />
+            <span className="font-medium text-gray-900 line-through">{formatValue(row[schema.idField])}</span>
+            <span className="text-gray-500">{formatValue(row[schema.nameField])}</span>
+          </div>
+        ))}
+        {changed.map(row => (
+          <div key={`changed-${row.id}`} className="p-3 text-sm">
+            <div className="flex items-center space-x-2 font-medium text-gray-900">
+              <Edit3 className="h-4 w-4 text-blue-600" />
+              <span>{row.businessId}</span>
+            </div>
+            {row.changes.map(change => (
+              <div key={change.field} className="flex items-center space-x-2 mt-1 ml-6 text-xs">
+                <span className="w-32 text-gray-500">{change.field}</span>
+                <span className="px-2 py-0.5 rounded bg-red-50 text-red-700 line-through">{formatValue(change.before)}</span>
+                <ArrowRight className="h-3 w-3 text-gray-400" />
+                <span className="px-2 py-0.5 rounded bg-green-50 text-green-700">{formatValue(change.after)}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+        {added.length + removed.length + changed.length === 0 && (
+          <p className="p-6 text-center text-sm text-gray-500">
+            {schema.label} are the same as before the restore.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Award } from 'lucide-react';
+import { DataSet } from '@/types/data';
+import { analyzeSkillCoverage } from '@/lib/skillCoverage';
+
+interface SkillCoveragePanelProps {
+  data: DataSet;
+}
+
+export default function SkillCoveragePanel({ data }: SkillCoveragePanelProps) {
+  const coverage = useMemo(() => analyzeSkillCoverage(data), [data]);
+  const tasks = coverage.tasks.filter(task => task.requiredSkills.length > 0);
+
+  const getCoverageColor = (count: number) => {
+    if (count === 0) return 'bg-red-100 text-red-800';
+    if (count === 1) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-green-100 text-green-800';
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header */}
+      <div className="p-4 border-b">
+        <div className="flex items-center space-x-2">
+          <Award className="h-5 w-5 text-green-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Skill Coverage</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Number of workers holding each required skill, and workers qualified for the whole task.
+        </p>
+      </div>
+
+      {tasks.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No tasks with required skills.</div>
+      ) : (
+        <div className="overflow-x-auto max-h-96">
+          <table className="text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider sticky left-0 bg-gray-50">
+                  Skill
+                </th>
+                {tasks.map(task => (
+                  <th key={task.rowIndex} className="px-2 py-2 text-center text-xs font-medium text-gray-500">
+                    {task.taskId}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {coverage.skills.map(skill => (
+                <tr key={skill}>
+                  <td className="px-3 py-2 text-gray-900 sticky left-0 bg-white whitespace-nowrap">
+                    {skill}
+                    <span className="text-xs text-gray-500"> ({coverage.workersBySkill[skill].length})</span>
+                  </td>
+                  {tasks.map(task => (
+                    <td key={task.rowIndex} className="px-2 py-2 text-center">
+                      {task.requiredSkills.includes(skill) && (
+                        <span
+                          className={`inline-block min-w-[1.5rem] px-1 rounded text-xs ${getCoverageColor(coverage.workersBySkill[skill].length)}`}
+                          title={coverage.workersBySkill[skill].join(', ') || 'No workers'}
+                        >
+                          {coverage.workersBySkill[skill].length}
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-medium">
+                <td className="px-3 py-2 text-gray-700 sticky left-0 bg-gray-50 whitespace-nowrap">Qualified workers</td>
+                {tasks.map(task => (
+                  <td key={task.rowIndex} className="px-2 py-2 text-center">
+                    <span
+                      className={`inline-block min-w-[1.5rem] px-1 rounded text-xs ${getCoverageColor(task.qualifiedWorkers.length)}`}
+                      title={task.qualifiedWorkers.join(', ') || 'No qualified workers'}
+                    >
+                      {task.qualifiedWorkers.length}
+                    </span>
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,101 @@
 'use client';
 
-import { useState, useMemo } from 'react';
-import { AlertCircle, CheckCircle, XCircle, Lightbulb, Zap, Filter } from 'lucide-react';
-import { ValidationError } from '@/types/data';
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { AlertCircle, CheckCircle, XCircle, Lightbulb, Zap, Filter, ArrowRight, EyeOff, RotateCcw } from 'lucide-react';
+import { DataSet, Suppression, ValidationError } from '@/types/data';
+import { applyFixes } from '@/lib/fixes';
+import { findStaleSuppressions, findSuppression, suppressionKey } from '@/lib/suppressions';
+import { ReportFormat } from '@/lib/validationReport';
 
 interface ValidationPanelProps {
   errors: ValidationError[];
+  data: DataSet;
+  onApplyFix: (errors: ValidationError[]) => void;
+  suppressions: Suppression[];
+  onSuppress: (error: ValidationError, reason: string) => void;
+  onRemoveSuppression: (suppression: Suppression) => void;
+  onExportReport: (format: ReportFormat) => void;
+  onSelectError: (error: ValidationError) => void;
 }
 
-export default function ValidationPanel({ errors }: ValidationPanelProps) {
+export default function ValidationPanel({
+  errors,
+  data,
+  onApplyFix,
+  suppressions,
+  onSuppress,
+  onRemoveSuppression,
+  onExportReport,
+  onSelectError
+}: ValidationPanelProps) {
   const [filterSeverity, setFilterSeverity] = useState<'all' | 'error' | 'warning' | 'info'>('all');
   const [expandedError, setExpandedError] = useState<string | null>(null);
+  const [pendingFixes, setPendingFixes] = useState<ValidationError[] | null>(null);
+  const [showSuppressed, setShowSuppressed] = useState(false);
+  const [dismissingError, setDismissingError] = useState<string | null>(null);
+  const [dismissReason, setDismissReason] = useState('');
+  const [showReportMenu, setShowReportMenu] = useState(false);
+  const [selectedErrorId, setSelectedErrorId] = useState<string | null>(null);
+
+  const activeErrors = useMemo(
+    () => errors.filter(error => !findSuppression(error, suppressions)),
+    [errors, suppressions]
+  );
+
+  const staleSuppressions = useMemo(() => findStaleSuppressions(suppressions, data), [suppressions, data]);
 
   const filteredErrors = useMemo(() => {
-    if (filterSeverity === 'all') return errors;
-    return errors.filter(error => error.severity === filterSeverity);
-  }, [errors, filterSeverity]);
+    const visible = showSuppressed ? errors : activeErrors;
+    if (filterSeverity === 'all') return visible;
+    return visible.filter(error => error.severity === filterSeverity);
+  }, [errors, activeErrors, showSuppressed, filterSeverity]);
+
+  // Fixable findings grouped by validator code, for "apply all of this kind"
+  const fixableByCode = useMemo(() => {
+    const groups: Record<string, ValidationError[]> = {};
+    activeErrors.forEach(error => {
+      if (!error.fix) return;
+      groups[error.code] = [...(groups[error.code] || []), error];
+    });
+    return groups;
+  }, [activeErrors]);
+
+  const pendingChanges = useMemo(
+    () => (pendingFixes ? applyFixes(data, pendingFixes).changes : []),
+    [data, pendingFixes]
+  );
 
   const errorStats = useMemo(() => {
     const stats = { error: 0, warning: 0, info: 0 };
-    errors.forEach(error => {
+    activeErrors.forEach(error => {
       stats[error.severity]++;
     });
     return stats;
-  }, [errors]);
+  }, [activeErrors]);
+
+  const handleSelectError = useCallback((error: ValidationError) => {
+    setSelectedErrorId(error.id);
+    onSelectError(error);
+    document.getElementById(`validation-item-${error.id}`)?.scrollIntoView({ block: 'nearest' });
+  }, [onSelectError]);
+
+  // Alt+ArrowDown / Alt+ArrowUp walk through the visible issues
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey || (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') || filteredErrors.length === 0) return;
+      e.preventDefault();
+
+      const current = filteredErrors.findIndex(error => error.id === selectedErrorId);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const next = current < 0
+        ? (step > 0 ? 0 : filteredErrors.length - 1)
+        : (current + step + filteredErrors.length) % filteredErrors.length;
+      handleSelectError(filteredErrors[next]);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [filteredErrors, selectedErrorId, handleSelectError]);
 
   const getSeverityIcon = (severity: ValidationError['severity']) => {
     switch (severity) {
@@ -59,14 +131,30 @@ export default function ValidationPanel({ errors }: ValidationPanelProps) {
   };
 
   const handleApplySuggestion = (error: ValidationError) => {
-    // This would typically trigger a callback to update the data
-    // For now, we'll just show a success message
-    console.log('Applying suggestion for error:', error.id);
+    onApplyFix([error]);
+  };
+
+  const handleConfirmFixes = () => {
+    if (pendingFixes) onApplyFix(pendingFixes);
+    setPendingFixes(null);
+  };
+
+  const formatValue = (value: unknown) => {
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+    return String(value ?? '');
   };
 
   const handleDismissError = (errorId: string) => {
-    // This would typically trigger a callback to remove the error
-    console.log('Dismissing error:', errorId);
+    setDismissingError(errorId);
+    setDismissReason('');
+  };
+
+  const handleConfirmDismiss = (error: ValidationError) => {
+    if (!dismissReason.trim()) return;
+    onSuppress(error, dismissReason.trim());
+    setDismissingError(null);
+    setDismissReason('');
   };
 
   return (
@@ -82,7 +170,7 @@ export default function ValidationPanel({ errors }: ValidationPanelProps) {
               onChange={(e) => setFilterSeverity(e.target.value as any)}
               className="text-sm border border-gray-300 rounded px-2 py-1"
             >
-              <option value="all">All ({errors.length})</option>
+              <option value="all">All ({activeErrors.length})</option>
               <option value="error">Errors ({errorStats.error})</option>
               <option value="warning">Warnings ({errorStats.warning})</option>
               <option value="info">Info ({errorStats.info})</option>
@@ -105,6 +193,40 @@ export default function ValidationPanel({ errors }: ValidationPanelProps) {
             <span className="text-sm text-gray-600">{errorStats.info} info</span>
           </div>
         </div>
+
+        {suppressions.length > 0 && (
+          <label className="flex items-center space-x-2 mt-3 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showSuppressed}
+              onChange={(e) => setShowSuppressed(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span>Show suppressed ({errors.length - activeErrors.length})</span>
+          </label>
+        )}
+
+        {/* Stale Suppressions */}
+        {staleSuppressions.length > 0 && (
+          <div className="mt-3 p-2 rounded border border-gray-200 bg-gray-50">
+            <p className="text-xs font-medium text-gray-700 mb-1">
+              {staleSuppressions.length} stale {staleSuppressions.length === 1 ? 'suppression' : 'suppressions'} (entity no longer exists)
+            </p>
+            {staleSuppressions.map(suppression => (
+              <div key={suppressionKey(suppression)} className="flex items-center justify-between text-xs text-gray-600">
+                <span className="truncate">
+                  {suppression.entityType} {suppression.entityId} • {suppression.field} • {suppression.code}
+                </span>
+                <button
+                  onClick={() => onRemoveSuppression(suppression)}
+                  className="text-blue-600 hover:text-blue-800 ml-2"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Error List */}
@@ -121,53 +243,125 @@ export default function ValidationPanel({ errors }: ValidationPanelProps) {
           </div>
         ) : (
           <div className="divide-y divide-gray-200">
-            {filteredErrors.map((error) => (
-              <div
-                key={error.id}
-                className={`p-4 border-l-4 ${getSeverityColor(error.severity)}`}
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex items-start space-x-3 flex-1">
-                    {getSeverityIcon(error.severity)}
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-1">
-                        <span className={`text-sm font-medium ${getSeverityTextColor(error.severity)}`}>
-                          {error.entityType.charAt(0).toUpperCase() + error.entityType.slice(1)}: {error.entityId}
-                        </span>
-                        <span className="text-xs text-gray-500">•</span>
-                        <span className="text-xs text-gray-500">{error.field}</span>
-                      </div>
-                      <p className={`text-sm ${getSeverityTextColor(error.severity)}`}>
-                        {error.message}
-                      </p>
-                      
-                      {error.suggestedFix && (
-                        <div className="mt-2">
-                          <div className="flex items-center space-x-1 mb-1">
-                            <Lightbulb className="h-3 w-3 text-yellow-600" />
-                            <span className="text-xs font-medium text-yellow-800">Suggested Fix:</span>
+            {filteredErrors.map((error) => {
+              const suppression = findSuppression(error, suppressions);
+              return (
+                <div
+                  key={error.id}
+                  id={`validation-item-${error.id}`}
+                  className={`p-4 border-l-4 ${getSeverityColor(error.severity)} ${suppression ? 'opacity-60' : ''} ${
+                    selectedErrorId === error.id ? 'ring-2 ring-inset ring-blue-400' : ''
+                  }`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start space-x-3 flex-1">
+                      {getSeverityIcon(error.severity)}
+                      <div className="flex-1">
+                        <button
+                          onClick={() => handleSelectError(error)}
+                          className="block w-full text-left"
+                          title="Show in grid"
+                        >
+                          <div className="flex items-center space-x-2 mb-1">
+                            <span className={`text-sm font-medium ${getSeverityTextColor(error.severity)}`}>
+                              {error.entityType.charAt(0).toUpperCase() + error.entityType.slice(1)}: {error.entityId}
+                            </span>
+                            <span className="text-xs text-gray-500">•</span>
+                            <span className="text-xs text-gray-500">{error.field}</span>
+                          </div>
+                          <p className={`text-sm ${getSeverityTextColor(error.severity)}`}>
+                            {error.message}
+                          </p>
+                        </button>
+                        
+                        {suppression && (
+                          <p className="mt-1 text-xs text-gray-600">
+                            <EyeOff className="h-3 w-3 inline mr-1" />
+                            Suppressed: {suppression.reason}
+                          </p>
+                        )}
+
+                        {dismissingError === error.id && (
+                          <div className="mt-2 flex items-center space-x-2">
+                            <input
+                              type="text"
+                              value={dismissReason}
+                              onChange={(e) => setDismissReason(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleConfirmDismiss(error);
+                                else if (e.key === 'Escape') setDismissingError(null);
+                              }}
+                              placeholder="Reason for dismissing (required)"
+                              className="flex-1 px-2 py-1 text-xs border rounded"
+                              autoFocus
+                            />
+                            <button
+                              onClick={() => handleConfirmDismiss(error)}
+                              disabled={!dismissReason.trim()}
+                              className="px-2 py-1 text-xs bg-gray-700 text-white rounded disabled:bg-gray-300"
+                            >
+                              Dismiss
+                            </button>
+                            <button
+                              onClick={() => setDismissingError(null)}
+                              className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800"
+                            >
+                              Cancel
+                            </button>
                           </div>
-                          <p className="text-xs text-yellow-700 mb-2">{error.suggestedFix}</p>
-                          <button
-                            onClick={() => handleApplySuggestion(error)}
-                            className="flex items-center space-x-1 px-2 py-1 text-xs bg-yellow-100 text-yellow-800 rounded hover:bg-yellow-200"
-                          >
-                            <Zap className="h-3 w-3" />
-                            <span>Apply Fix</span>
-                          </button>
-                        </div>
-                      )}
+                        )}
+
+                        {error.suggestedFix && !suppression && (
+                          <div className="mt-2">
+                            <div className="flex items-center space-x-1 mb-1">
+                              <Lightbulb className="h-3 w-3 text-yellow-600" />
+                              <span className="text-xs font-medium text-yellow-800">Suggested Fix:</span>
+                            </div>
+                            <p className="text-xs text-yellow-700 mb-2">{error.suggestedFix}</p>
+                            {error.fix && (
+                              <div className="flex items-center space-x-2">
+                                <button
+                                  onClick={() => handleApplySuggestion(error)}
+                                  className="flex items-center space-x-1 px-2 py-1 text-xs bg-yellow-100 text-yellow-800 rounded hover:bg-yellow-200"
+                                >
+                                  <Zap className="h-3 w-3" />
+                                  <span>Apply Fix</span>
+                                </button>
+                                {fixableByCode[error.code]?.length > 1 && (
+                                  <button
+                                    onClick={() => setPendingFixes(fixableByCode[error.code])}
+                                    className="px-2 py-1 text-xs text-yellow-800 hover:underline"
+                                  >
+                                    Apply all {fixableByCode[error.code].length} of this kind
+                                  </button>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
                     </div>
+                    {suppression ? (
+                      <button
+                        onClick={() => onRemoveSuppression(suppression)}
+                        className="text-gray-400 hover:text-gray-600 p-1"
+                        title="Restore"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleDismissError(error.id)}
+                        className="text-gray-400 hover:text-gray-600 p-1"
+                        title="Dismiss"
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </button>
+                    )}
                   </div>
-                  <button
-                    onClick={() => handleDismissError(error.id)}
-                    className="text-gray-400 hover:text-gray-600 p-1"
-                  >
-                    <XCircle className="h-4 w-4" />
-                  </button>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
@@ -177,12 +371,34 @@ export default function ValidationPanel({ errors }: ValidationPanelProps) {
         <div className="p-4 border-t bg-gray-50">
           <div className="flex items-center justify-between text-sm text-gray-600">
             <span>
-              {filteredErrors.length} of {errors.length} issues shown
+              {filteredErrors.length} of {activeErrors.length} issues shown
+              <span className="text-xs text-gray-400 ml-2">Alt+↑/↓ to step through</span>
             </span>
             <div className="flex space-x-2">
-              <button className="text-blue-600 hover:text-blue-800">
-                Export Report
-              </button>
+              <div className="relative">
+                <button
+                  onClick={() => setShowReportMenu(open => !open)}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Export Report
+                </button>
+                {showReportMenu && (
+                  <div className="absolute right-0 bottom-full mb-1 bg-white border rounded shadow-lg z-10">
+                    {(['csv', 'json', 'html'] as const).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => {
+                          onExportReport(format);
+                          setShowReportMenu(false);
+                        }}
+                        className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 uppercase"
+                      >
+                        {format}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
               <button className="text-blue-600 hover:text-blue-800">
                 View All
               </button>
@@ -190,6 +406,50 @@ export default function ValidationPanel({ errors }: ValidationPanelProps) {
           </div>
         </div>
       )}
+
+      {/* Bulk Fix Preview Modal */}
+      {pendingFixes && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+            <div className="p-4 border-b">
+              <h3 className="text-lg font-semibold text-gray-900">Preview Fixes</h3>
+              <p className="text-sm text-gray-500">
+                {pendingChanges.length} {pendingChanges.length === 1 ? 'row' : 'rows'} will change.
+              </p>
+            </div>
+            <div className="flex-1 overflow-y-auto divide-y divide-gray-200">
+              {pendingChanges.map(change => (
+                <div key={change.error.id} className="p-3 text-sm">
+                  <div className="font-medium text-gray-900">
+                    {change.error.entityType.charAt(0).toUpperCase() + change.error.entityType.slice(1)}: {change.entityId}
+                    <span className="text-xs text-gray-500"> • {change.field}</span>
+                  </div>
+                  <div className="flex items-center space-x-2 mt-1 text-xs">
+                    <span className="px-2 py-0.5 bg-red-50 text-red-700 rounded line-through">{formatValue(change.before)}</span>
+                    <ArrowRight className="h-3 w-3 text-gray-400" />
+                    <span className="px-2 py-0.5 bg-green-50 text-green-700 rounded">{formatValue(change.after)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="p-4 border-t flex justify-end space-x-3">
+              <button
+                onClick={() => setPendingFixes(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmFixes}
+                disabled={pendingChanges.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+              >
+                Apply {pendingChanges.length} {pendingChanges.length === 1 ? 'Change' : 'Changes'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { EntityCollection, ExportResult, ValidationError } from '@/types/data';
+import { COLLECTIONS } from '@/lib/schema';
+import { ExportSource, buildExport } from '@/lib/exporters';
+import { RowProvenance } from '@/lib/provenance';
+import { sha256 } from '@/lib/hashing';
+import { ExportOverride, SuppressedError } from '@/lib/preflight';
+import { ZipEntries, readZip, writeZip } from '@/lib/zip';
+
+// A bundle is one ZIP with the cleaned data as CSV, rules.json (which carries
+// the weights and suppressions), the weights on their own, the validation
+// report, the header mappings of the upload, and a manifest that lets the
+// receiver check nothing changed on the way and carries each row's source and
+// edits. It restores a whole session.
+export const BUNDLE_VERSION = 1;
+
+// Set from package.json by next.config.ts
+const APP_VERSION = process.env.APP_VERSION ?? 'unknown';
+
+export const MANIFEST_NAME = 'manifest.json';
+
+export const PROFILES_FILE = 'mapping-profiles.json';
+
+export interface BundleFile {
+  name: string;
+  collection?: EntityCollection; // Set on the data files
+  rows?: number; // Data rows or report findings, for tabular files
+  bytes: number;
+  sha256: string;
+}
+
+export interface ValidationSummary {
+  errors: number;
+  warnings: number;
+  info: number;
+  byCode: Record<string, number>;
+}
+
+// Where each row came from and which of its fields were edited, listed in the
+// order of the rows in its data file. Restored rows get new internal ids, so
+// position is what ties them back together.
+export interface BundleSession {
+  fileNames: Partial<Record<EntityCollection, string>>;
+  provenance: Record<EntityCollection, (RowProvenance | null)[]>;
+  edits: Record<EntityCollection, string[][]>;
+}
+
+export interface BundleManifest {
+  bundleVersion: number;
+  appVersion: string;
+  createdAt: string;
+  files: BundleFile[];
+  validation: ValidationSummary; // Open findings when the bundle was made
+  override: ExportOverride | null; // Set when it was made despite open errors
+  suppressedErrors: SuppressedError[]; // Errors left out by a suppression, which do not block
+  session?: BundleSession; // Bundles only, and absent from ones made before it was recorded
+}
+
+// A bundle that passed verification, with its files ready to upload
+export interface BundleContents {
+  manifest: BundleManifest;
+  files: Record<string, File>;
+  data: Partial<Record<EntityCollection, File>>;
+}
+
+type ExportFile = ExportResult['files'][number];
+
+export const isBundle = (file: File) => file.name.endsWith('.zip') || file.type === 'application/zip';
+
+export const summarizeValidation = (errors: ValidationError[]): ValidationSummary => ({
+  errors: errors.filter(error => error.severity === 'error').length,
+  warnings: errors.filter(error => error.severity === 'warning').length,
+  info: errors.filter(error => error.severity === 'info').length,
+  byCode: errors.reduce<Record<string, number>>((counts, error) => {
+    counts[error.code] = (counts[error.code] || 0) + 1;
+    return counts;
+  }, {})
+});
+
+const toBytes = async (content: string | Blob) =>
+  typeof content === 'string' ? new TextEncoder().encode(content) : new Uint8Array(await content.arrayBuffer());
+
+const collectionOf = (fileName: string) => COLLECTIONS.find(collection => fileName === `${collection}.csv`);
+
+const encodeFiles = async (exported: ExportFile[]) => {
+  const entries: ZipEntries = {};
+  for (const file of exported) entries[file.name] = await toBytes(file.content);
+  return entries;
+};
+
+const createManifest = async (
+  entries: ZipEntries,
+  source: ExportSource,
+  override?: ExportOverride,
+  suppressed: SuppressedError[] = []
+): Promise<BundleManifest> => {
+  const files: BundleFile[] = [];
+  for (const [name, bytes] of Object.entries(entries)) {
+    const collection = collectionOf(name);
+    files.push({
+      name,
+      ...(collection && { collection, rows: source.data[collection].length }),
+      ...(name.startsWith('validation-report') && { rows: source.errors.length }),
+      bytes: bytes.length,
+      sha256: await sha256(bytes)
+    });
+  }
+  return {
+    bundleVersion: BUNDLE_VERSION,
+    appVersion: APP_VERSION,
+    createdAt: new Date().toISOString(),
+    files,
+    validation: summarizeValidation(source.errors),
+    override: override ?? null,
+    suppressedErrors: suppressed
+  };
+};
+
+const bundleSession = ({ data, fileNames, provenance }: ExportSource): BundleSession => ({
+  fileNames,
+  provenance: Object.fromEntries(COLLECTIONS.map(collection => [
+    collection,
+    data[collection].map(row => provenance.provenance[collection][row.id] ?? null)
+  ])) as BundleSession['provenance'],
+  edits: Object.fromEntries(COLLECTIONS.map(collection => [
+    collection,
+    data[collection].map(row => provenance.edits[collection][row.id] ?? [])
+  ])) as BundleSession['edits']
+});
+
+const manifestFile = (manifest: BundleManifest): ExportFile => ({
+  name: MANIFEST_NAME,
+  content: JSON.stringify(manifest, null, 2),
+  type: 'application/json'
+});
+
+// Manifest for a plain export, written alongside it when errors were
+// overridden or suppressed
+export const buildManifest = async (
+  exported: ExportFile[],
+  source: ExportSource,
+  override?: ExportOverride,
+  suppressed?: SuppressedError[]
+) => manifestFile(await createManifest(await encodeFiles(exported), source, override, suppressed));
+
+export const buildBundle = async (
+  source: ExportSource,
+  includeProvenance: boolean,
+  override?: ExportOverride,
+  suppressed?: SuppressedError[]
+): Promise<ExportResult> => {
+  const result = await buildExport(source, {
+    format: 'csv',
+    includeValidation: true,
+    includeRules: true,
+    includePriorities: true,
+    includeProvenance
+  });
+  if (!result.success) return result;
+
+  const entries = await encodeFiles(result.files);
+  entries[PROFILES_FILE] = await toBytes(JSON.stringify(source.profiles, null, 2));
+  const manifest = manifestFile({ ...await createManifest(entries, source, override, suppressed), session: bundleSession(source) });
+  entries[MANIFEST_NAME] = await toBytes(manifest.content);
+
+  const bundle: ExportFile = { name: 'bundle.zip', content: new Blob([writeZip(entries)]), type: 'application/zip' };
+  return { success: true, files: [bundle] };
+};
+
+const typeOf = (name: string) => (name.endsWith('.csv') ? 'text/csv' : name.endsWith('.json') ? 'application/json' : '');
+
+// Opens a bundle and checks every file the manifest lists against its
+// checksum. Throws, naming each file that is missing or changed, so nothing
+// from an altered bundle is loaded. Files the manifest does not list are ignored.
+export const readBundle = async (file: File): Promise<BundleContents> => {
+  const entries = readZip(await file.arrayBuffer());
+  const manifestBytes = entries[MANIFEST_NAME];
+  if (!manifestBytes) throw new Error(`No ${MANIFEST_NAME} found, so the bundle cannot be verified`);
+
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new Error(`${MANIFEST_NAME} is not valid JSON`);
+  }
+  if (!Array.isArray(manifest.files)) throw new Error(`${MANIFEST_NAME} does not list the bundle's files`);
+  if (typeof manifest.bundleVersion !== 'number' || manifest.bundleVersion > BUNDLE_VERSION) {
+    throw new Error(`The bundle uses format version ${manifest.bundleVersion}; this app reads up to version ${BUNDLE_VERSION}`);
+  }
+
+  const problems: string[] = [];
+  // Bundles written before empty entries were kept lack them, so an empty file is not missing
+  for (const listed of manifest.files) {
+    if (!entries[listed.name] && listed.bytes === 0) entries[listed.name] = new Uint8Array();
+    const bytes = entries[listed.name];
+    if (!bytes) problems.push(`${listed.name} is missing`);
+    else if (await sha256(bytes) !== listed.sha256) problems.push(`${listed.name} does not match its checksum`);
+  }
+  if (problems.length > 0) throw new Error(`Bundle verification failed: ${problems.join('; ')}`);
+
+  const files: Record<string, File> = {};
+  const data: Partial<Record<EntityCollection, File>> = {};
+  manifest.files.forEach(listed => {
+    files[listed.name] = new File([entries[listed.name]], listed.name, { type: typeOf(listed.name) });
+    if (listed.collection && COLLECTIONS.includes(listed.collection)) data[listed.collection] = files[listed.name];
+  });
+  return { manifest, files, data };
+};
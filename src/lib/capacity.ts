@@ -0,0 +1,78 @@
+import { DataEntity, DataSet, ValidationError } from '@/types/data';
+import { createFinding } from '@/lib/validation';
+
+export interface PhaseCapacity {
+  phase: number;
+  demand: number; // Worker-slots requested by tasks preferring this phase
+  supply: number; // Sum of MaxLoadPerPhase of workers available in this phase
+}
+
+const phasesOf = (entity: DataEntity, field: string): number[] => {
+  const value = entity[field];
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter((item): item is number => Number.isInteger(item) && item > 0)));
+};
+
+const positiveNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+// A task needs Duration × MaxConcurrent worker-slots in total, split evenly
+// across its preferred phases. Tasks without a preferred phase add no demand.
+export const analyzeCapacity = (data: DataSet): PhaseCapacity[] => {
+  const demand = new Map<number, number>();
+  const supply = new Map<number, number>();
+
+  data.tasks.forEach(task => {
+    const phases = phasesOf(task, 'PreferredPhases');
+    if (phases.length === 0) return;
+    const slots = positiveNumber(task.Duration, 1) * positiveNumber(task.MaxConcurrent, 1);
+    phases.forEach(phase => demand.set(phase, (demand.get(phase) || 0) + slots / phases.length));
+  });
+
+  data.workers.forEach(worker => {
+    const load = positiveNumber(worker.MaxLoadPerPhase, 0);
+    phasesOf(worker, 'AvailableSlots').forEach(phase => supply.set(phase, (supply.get(phase) || 0) + load));
+  });
+
+  const phases = Array.from(new Set([...demand.keys(), ...supply.keys()])).sort((a, b) => a - b);
+  return phases.map(phase => ({
+    phase,
+    demand: Math.round((demand.get(phase) || 0) * 100) / 100,
+    supply: supply.get(phase) || 0
+  }));
+};
+
+export const validateCapacity = (data: DataSet): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  analyzeCapacity(data)
+    .filter(({ demand, supply }) => demand > supply)
+    .forEach(({ phase, demand, supply }) => {
+      errors.push({
+        id: `phase-oversubscribed-${phase}`,
+        code: 'phase-oversubscribed',
+        entityType: 'task',
+        entityId: '*',
+        field: `PreferredPhases[${phase}]`, // Per phase, so each can be suppressed on its own
+        message: `Phase ${phase} is over-subscribed: ${demand} worker-slots demanded, ${supply} available`,
+        severity: 'warning',
+        suggestedFix: `Move tasks out of phase ${phase} or make more workers available in it`
+      });
+    });
+
+  data.workers.forEach((worker, rowIndex) => {
+    const slots = phasesOf(worker, 'AvailableSlots').length;
+    const load = worker.MaxLoadPerPhase;
+    if (typeof load === 'number' && slots < load) {
+      // A load of 0 is never what was meant, so with no slots listed the slots need fixing instead
+      errors.push(createFinding(
+        'load-exceeds-slots', 'workers', worker, rowIndex, 'MaxLoadPerPhase', 'warning',
+        `MaxLoadPerPhase is ${load} but only ${slots} available ${slots === 1 ? 'slot is' : 'slots are'} listed`,
+        slots < 1 ? 'List the phases this worker is available in under AvailableSlots' : `Set MaxLoadPerPhase to ${slots}`,
+        slots < 1 ? undefined : { type: 'setField', value: slots }
+      ));
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,108 @@
+import Papa from 'papaparse';
+
+// How a delimited text file is laid out. Detected from the start of the file
+// and overridable by the user before the rows are processed.
+export interface CsvFormat {
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  bom: boolean; // Byte order mark found; it decides the encoding and is stripped
+}
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvEncoding = 'utf-8' | 'windows-1252' | 'utf-16le' | 'utf-16be';
+
+export const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' }
+];
+
+export const ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+// Enough for a few dozen rows of even wide files
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_LINES = 20;
+
+const BOMS: { bytes: number[]; encoding: CsvEncoding }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' }
+];
+
+export const isDelimitedText = (file: File) =>
+  /\.(csv|tsv|txt)$/i.test(file.name) || ['text/csv', 'text/tab-separated-values', 'text/plain'].includes(file.type);
+
+export const readSample = async (file: File) => new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+
+const detectBom = (bytes: Uint8Array) =>
+  BOMS.find(bom => bom.bytes.every((byte, i) => bytes[i] === byte))?.encoding;
+
+// Without a BOM, text that is not valid UTF-8 is taken to be Windows-1252,
+// which is what Excel writes on Western European systems
+const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  try {
+    // stream: true tolerates a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+// TextDecoder drops a BOM matching the encoding
+export const decodeSample = (bytes: Uint8Array, encoding: CsvEncoding) => new TextDecoder(encoding).decode(bytes);
+
+// Occurrences of the delimiter outside double quotes
+const countOutsideQuotes = (line: string, delimiter: string) => {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+// The delimiter appearing the same number of times on most sample lines, and
+// most often when tied. Falls back to a comma for single-column files.
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  // The last line of a sample may be cut off
+  const sample = (lines.length > 1 && !/\n$/.test(text) ? lines.slice(0, -1) : lines).slice(0, SAMPLE_LINES);
+
+  let best: { delimiter: CsvDelimiter; consistency: number; count: number } = { delimiter: ',', consistency: 0, count: 0 };
+  DELIMITERS.forEach(({ value: delimiter }) => {
+    const counts = sample.map(line => countOutsideQuotes(line, delimiter));
+    const count = counts[0] || 0;
+    if (count === 0) return;
+    const consistency = counts.filter(c => c === count).length / counts.length;
+    if (consistency > best.consistency || (consistency === best.consistency && count > best.count)) {
+      best = { delimiter, consistency, count };
+    }
+  });
+  return best.delimiter;
+};
+
+export const detectCsvFormat = async (file: File): Promise<CsvFormat> => {
+  const bytes = await readSample(file);
+  const bomEncoding = detectBom(bytes);
+  const encoding = bomEncoding || detectEncoding(bytes);
+  return { delimiter: detectDelimiter(decodeSample(bytes, encoding)), encoding, bom: Boolean(bomEncoding) };
+};
+
+// First rows of the sample split with the given delimiter, header included
+export const previewCsv = (text: string, delimiter: CsvDelimiter, rows = 10): string[][] =>
+  Papa.parse<string[]>(text, { delimiter, preview: rows + 1, skipEmptyLines: true }).data;
+
+export const describeCsvFormat = (format: CsvFormat) =>
+  [
+    DELIMITERS.find(d => d.value === format.delimiter)?.label,
+    ENCODINGS.find(e => e.value === format.encoding)?.label.split(' ')[0],
+    format.bom ? 'BOM' : ''
+  ].filter(Boolean).join(' · ');
@@ -0,0 +1,171 @@
+import { DataEntity, DataSet, ValidationError } from '@/types/data';
+import { createFinding } from '@/lib/validation';
+
+export interface DependencyAnalysis {
+  order: string[]; // Topological order of tasks not blocked by a cycle
+  cycles: string[][]; // Each cycle lists its tasks once, starting from the smallest ID
+  blocked: string[]; // Tasks in or downstream of a cycle
+  earliestPhase: Record<string, number>;
+  criticalPath: string[];
+  criticalPathDuration: number;
+}
+
+const durationOf = (task: DataEntity | undefined) =>
+  task && typeof task.Duration === 'number' && Number.isFinite(task.Duration) && task.Duration > 0
+    ? task.Duration
+    : 1;
+
+// Adjacency from each task to the tasks it depends on. Unknown dependencies
+// are left to the reference validator and ignored here.
+const buildGraph = (tasks: DataEntity[]) => {
+  const byId = new Map<string, DataEntity>();
+  tasks.forEach(task => {
+    const id = String(task.TaskID ?? '').trim();
+    if (id && !byId.has(id)) byId.set(id, task);
+  });
+
+  const dependsOn = new Map<string, string[]>();
+  byId.forEach((task, id) => {
+    const deps = Array.isArray(task.Dependencies) ? task.Dependencies : [];
+    const known = deps.map(dep => String(dep).trim()).filter(dep => byId.has(dep));
+    dependsOn.set(id, Array.from(new Set(known)));
+  });
+
+  return { byId, dependsOn };
+};
+
+// Rotates a cycle so it starts at its smallest ID, giving one key per cycle
+const normaliseCycle = (cycle: string[]) => {
+  const start = cycle.indexOf([...cycle].sort()[0]);
+  return [...cycle.slice(start), ...cycle.slice(0, start)];
+};
+
+// Depth-first search with its own stack, since a long dependency chain would
+// overflow the call stack. Each frame is a task and the index of the next
+// dependency to look at.
+const findCycles = (dependsOn: Map<string, string[]>): string[][] => {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+  const cycles = new Map<string, string[]>();
+
+  dependsOn.forEach((_, root) => {
+    if (state.has(root)) return;
+    const frames: { id: string; next: number }[] = [{ id: root, next: 0 }];
+    state.set(root, 'visiting');
+    path.push(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const deps = dependsOn.get(frame.id) || [];
+      if (frame.next >= deps.length) {
+        frames.pop();
+        path.pop();
+        state.set(frame.id, 'done');
+        continue;
+      }
+
+      const dep = deps[frame.next++];
+      if (state.get(dep) === 'visiting') {
+        const cycle = normaliseCycle(path.slice(path.indexOf(dep)));
+        cycles.set(cycle.join('>'), cycle);
+      } else if (!state.has(dep)) {
+        state.set(dep, 'visiting');
+        path.push(dep);
+        frames.push({ id: dep, next: 0 });
+      }
+    }
+  });
+
+  return Array.from(cycles.values());
+};
+
+export const analyzeDependencies = (tasks: DataEntity[]): DependencyAnalysis => {
+  const { byId, dependsOn } = buildGraph(tasks);
+  const cycles = findCycles(dependsOn);
+
+  // Kahn's algorithm over "dependency before dependant" edges
+  const dependants = new Map<string, string[]>();
+  const remaining = new Map<string, number>();
+  dependsOn.forEach((deps, id) => {
+    remaining.set(id, deps.length);
+    deps.forEach(dep => dependants.set(dep, [...(dependants.get(dep) || []), id]));
+  });
+
+  const queue = Array.from(remaining.entries()).filter(([, count]) => count === 0).map(([id]) => id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    order.push(id);
+    (dependants.get(id) || []).forEach(next => {
+      const count = (remaining.get(next) || 0) - 1;
+      remaining.set(next, count);
+      if (count === 0) queue.push(next);
+    });
+  }
+
+  // Earliest start is the latest finish among dependencies; phases are 1-based
+  const earliestStart: Record<string, number> = {};
+  const predecessor: Record<string, string | undefined> = {};
+  order.forEach(id => {
+    earliestStart[id] = 0;
+    (dependsOn.get(id) || []).forEach(dep => {
+      const finish = earliestStart[dep] + durationOf(byId.get(dep));
+      if (finish > earliestStart[id]) {
+        earliestStart[id] = finish;
+        predecessor[id] = dep;
+      }
+    });
+  });
+
+  const earliestPhase: Record<string, number> = {};
+  order.forEach(id => {
+    earliestPhase[id] = earliestStart[id] + 1;
+  });
+
+  let end: string | undefined;
+  let criticalPathDuration = 0;
+  order.forEach(id => {
+    const finish = earliestStart[id] + durationOf(byId.get(id));
+    if (finish > criticalPathDuration) {
+      criticalPathDuration = finish;
+      end = id;
+    }
+  });
+
+  const criticalPath: string[] = [];
+  for (let id = end; id; id = predecessor[id]) {
+    criticalPath.unshift(id);
+  }
+
+  const ordered = new Set(order);
+  const blocked = Array.from(byId.keys()).filter(id => !ordered.has(id));
+
+  return { order, cycles, blocked, earliestPhase, criticalPath, criticalPathDuration };
+};
+
+// One finding per task taking part in a cycle, each describing the whole cycle.
+// Only the task closing the cycle carries a fix: removing one edge breaks it,
+// and applying every finding's fix would remove them all.
+export const validateDependencyCycles = (data: DataSet): ValidationError[] => {
+  const { cycles } = analyzeDependencies(data.tasks);
+  const errors: ValidationError[] = [];
+
+  cycles.forEach(cycle => {
+    const description = [...cycle, cycle[0]].join(' → ');
+    const closing = cycle[cycle.length - 1];
+    const breakHint = `Remove dependency "${cycle[0]}" from ${closing} to break the cycle`;
+    cycle.forEach(id => {
+      const rowIndex = data.tasks.findIndex(task => String(task.TaskID ?? '').trim() === id);
+      if (rowIndex < 0) return;
+      const finding = createFinding(
+        'dependency-cycle', 'tasks', data.tasks[rowIndex], rowIndex, 'Dependencies', 'error',
+        `Circular dependency: ${description}`,
+        id === closing ? breakHint : `${breakHint}, or any other dependency in it`,
+        id === closing ? { type: 'removeArrayElement', value: cycle[0] } : undefined
+      );
+      errors.push({ ...finding, id: `${finding.id}-${cycle.join('>')}` });
+    });
+  });
+
+  return errors;
+};
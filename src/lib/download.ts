@@ -0,0 +1,31 @@
+import { ExportResult } from '@/types/data';
+
+// Browsers may still be reading the blob when click() returns, so the URL is
+// kept alive a while before it is revoked
+const REVOKE_DELAY_MS = 60_000;
+
+// Browsers drop or block downloads started in quick succession
+const DOWNLOAD_SPACING_MS = 400;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Triggers a browser download of the given content
+export const downloadFile = (fileName: string, content: string | Blob, type: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// Downloads several files one after another, spaced out so none is dropped
+export const downloadFiles = async (files: ExportResult['files']) => {
+  for (const [index, file] of files.entries()) {
+    if (index > 0) await wait(DOWNLOAD_SPACING_MS);
+    downloadFile(file.name, file.content, file.type);
+  }
+};
@@ -0,0 +1,93 @@
+import { EntityCollection } from '@/types/data';
+import { COLLECTIONS, ENTITY_SCHEMAS } from '@/lib/schema';
+import { ParsedSheet, RawRow } from '@/lib/fileParsing';
+import { headersOf, matchHeader, normalizeHeader } from '@/lib/headerMapping';
+
+// Minimum score for a sheet to be assigned without the user's help
+const DETECTION_THRESHOLD = 0.5;
+// How far a file must score below another entity type to count as misplaced
+const MISMATCH_MARGIN = 0.3;
+const SAMPLE_SIZE = 20;
+
+// Business IDs look like C1 / W-12 / T007
+const ID_PATTERNS: Record<EntityCollection, RegExp> = {
+  clients: /^C-?\d+$/i,
+  workers: /^W-?\d+$/i,
+  tasks: /^T-?\d+$/i
+};
+
+// Share of the schema's fields that the headers map onto. Generic fields
+// (names, groups, attributes) match every entity, so the id field counts double.
+export const scoreHeaders = (headers: string[], collection: EntityCollection): number => {
+  const schema = ENTITY_SCHEMAS[collection];
+  const matched = new Set(headers.map(header => matchHeader(header, collection)).filter(Boolean));
+  const weight = (name: string) => (name === schema.idField ? 2 : 1);
+  const total = schema.fields.reduce((sum, field) => sum + weight(field.name), 0);
+  const hit = schema.fields.reduce((sum, field) => sum + (matched.has(field.name) ? weight(field.name) : 0), 0);
+  return hit / total;
+};
+
+// Sheet names such as "Clients", "client_list" or "Tasks 2024" count as a strong hint
+const scoreName = (name: string, collection: EntityCollection) =>
+  normalizeHeader(name).includes(collection.slice(0, -1)) ? 0.5 : 0;
+
+// Share of sampled rows whose ID column holds an ID with the entity's prefix.
+// The ID column is the one mapped to the id field, else the first column.
+export const scoreValues = (rows: RawRow[], collection: EntityCollection): number => {
+  const sample = rows.slice(0, SAMPLE_SIZE);
+  if (sample.length === 0) return 0;
+
+  const headers = headersOf(sample);
+  const idHeader = headers.find(header => matchHeader(header, collection) === ENTITY_SCHEMAS[collection].idField) || headers[0];
+  const matches = sample.filter(row => ID_PATTERNS[collection].test(String(row[idHeader] ?? '').trim()));
+  return matches.length / sample.length;
+};
+
+export const scoreSheet = (name: string, rows: RawRow[], collection: EntityCollection) =>
+  Math.min(1, scoreHeaders(headersOf(rows), collection) + scoreName(name, collection) + scoreValues(rows, collection) * 0.3);
+
+export interface Classification {
+  collection: EntityCollection | null; // null when no entity type scores high enough
+  scores: Record<EntityCollection, number>;
+}
+
+// Works out which entity type a single file holds
+export const classifyRows = (name: string, rows: RawRow[]): Classification => {
+  const scores = {} as Record<EntityCollection, number>;
+  COLLECTIONS.forEach(collection => {
+    scores[collection] = scoreSheet(name, rows, collection);
+  });
+
+  const best = [...COLLECTIONS].sort((a, b) => scores[b] - scores[a])[0];
+  return { collection: scores[best] >= DETECTION_THRESHOLD ? best : null, scores };
+};
+
+// The entity type a file placed in the given zone clearly belongs to instead, if any
+export const detectMisplacement = (classification: Classification, zone: EntityCollection): EntityCollection | null => {
+  const { collection, scores } = classification;
+  if (!collection || collection === zone) return null;
+  return scores[collection] - scores[zone] >= MISMATCH_MARGIN ? collection : null;
+};
+
+// Assigns each entity type to at most one sheet, best-scoring pairs first.
+// Sheets left unassigned should be ignored by the caller.
+export const assignSheets = (sheets: Pick<ParsedSheet, 'name' | 'rows'>[]): Partial<Record<EntityCollection, string>> => {
+  const candidates = sheets
+    .flatMap(sheet => COLLECTIONS.map(collection => ({
+      sheet: sheet.name,
+      collection,
+      score: scoreSheet(sheet.name, sheet.rows, collection)
+    })))
+    .filter(candidate => candidate.score >= DETECTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const assignments: Partial<Record<EntityCollection, string>> = {};
+  const usedSheets = new Set<string>();
+  candidates.forEach(({ sheet, collection }) => {
+    if (assignments[collection] || usedSheets.has(sheet)) return;
+    assignments[collection] = sheet;
+    usedSheets.add(sheet);
+  });
+
+  return assignments;
+};
@@ -0,0 +1,194 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import {
+  BusinessRule,
+  DataEntity,
+  DataSet,
+  EntityCollection,
+  ExportConfig,
+  ExportResult,
+  PrioritizationWeights,
+  Suppression,
+  ValidationError
+} from '@/types/data';
+import { COLLECTIONS, ENTITY_SCHEMAS } from '@/lib/schema';
+import { RawRow } from '@/lib/fileParsing';
+import { EditLog } from '@/lib/merge';
+import { ProvenanceLog } from '@/lib/provenance';
+import { buildReportRows, buildValidationReport, toReportTable } from '@/lib/validationReport';
+import { buildRulesDocument, serializeRules } from '@/lib/rulesFile';
+import { MappingProfile } from '@/lib/mappingProfiles';
+
+// Source details and pre-coercion values appended after the schema columns, so
+// a file with them still re-uploads while upstream owners can trace each row
+export interface ProvenanceExport {
+  provenance: ProvenanceLog;
+  edits: EditLog;
+}
+
+// Everything an export can draw on; the config decides what goes in
+export interface ExportSource {
+  data: DataSet;
+  errors: ValidationError[]; // Findings to report, suppressed ones already left out
+  fileNames: Partial<Record<EntityCollection, string>>;
+  rules: BusinessRule[];
+  suppressions: Suppression[];
+  priorities: PrioritizationWeights;
+  provenance: ProvenanceExport;
+  profiles: MappingProfile[]; // Header mappings of the upload, written to bundles only
+}
+
+type ExportFile = ExportResult['files'][number];
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const SOURCE_COLUMNS = ['Source File', 'Source Sheet', 'Source Row', 'Edited Fields'];
+
+const originalColumn = (field: string) => `${field} (original)`;
+
+export const exportHeaders = (collection: EntityCollection, withProvenance = false) => {
+  const fields = ENTITY_SCHEMAS[collection].fields.map(field => field.name);
+  return withProvenance ? [...fields, ...SOURCE_COLUMNS, ...fields.map(originalColumn)] : fields;
+};
+
+const cellValue = (value: unknown) =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : value ?? '';
+
+// Flattens entities back into upload-shaped rows: schema columns in schema
+// order, lists joined with their separator so the file re-uploads unchanged.
+export const toExportRows = (
+  entities: DataEntity[],
+  collection: EntityCollection,
+  provenance?: ProvenanceExport
+): RawRow[] =>
+  entities.map(entity => {
+    const row: RawRow = {};
+    ENTITY_SCHEMAS[collection].fields.forEach(field => {
+      const value = entity[field.name];
+      if (field.type === 'list') {
+        row[field.name] = Array.isArray(value) ? value.join(field.separator || ',') : value ?? '';
+      } else if (field.type === 'json' && typeof value === 'object' && value !== null) {
+        row[field.name] = JSON.stringify(value);
+      } else {
+        row[field.name] = value ?? '';
+      }
+    });
+
+    if (provenance) {
+      // Rows added by hand have no source and are left blank
+      const source = provenance.provenance[collection][entity.id];
+      row['Source File'] = source?.file ?? '';
+      row['Source Sheet'] = source?.sheet ?? '';
+      row['Source Row'] = source?.row ?? '';
+      row['Edited Fields'] = (provenance.edits[collection][entity.id] || []).join(', ');
+      ENTITY_SCHEMAS[collection].fields.forEach(field => {
+        row[originalColumn(field.name)] = cellValue(source?.raw[field.name]);
+      });
+    }
+    return row;
+  });
+
+// JSON keeps lists as arrays, which JSON upload reads back as they are
+const toJsonRecords = (entities: DataEntity[], collection: EntityCollection, provenance?: ProvenanceExport) =>
+  entities.map(entity => {
+    const record: RawRow = Object.fromEntries(
+      ENTITY_SCHEMAS[collection].fields.map(field => [field.name, entity[field.name] ?? (field.type === 'list' ? [] : '')])
+    );
+    if (provenance) {
+      const source = provenance.provenance[collection][entity.id];
+      record.source = {
+        file: source?.file ?? null,
+        sheet: source?.sheet ?? null,
+        row: source?.row ?? null,
+        editedFields: provenance.edits[collection][entity.id] || [],
+        original: source?.raw ?? null
+      };
+    }
+    return record;
+  });
+
+interface WorkbookSheet {
+  name: string;
+  rows: RawRow[];
+  header?: string[]; // Column order, defaults to the keys of the first row
+}
+
+const writeWorkbook = (sheets: WorkbookSheet[]): Blob => {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(({ name, rows, header }) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows, { header }), name);
+  });
+  const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return new Blob([buffer], { type: XLSX_TYPE });
+};
+
+const priorityRows = (priorities: PrioritizationWeights) =>
+  Object.entries(priorities).map(([criterion, weight]) => ({ Criterion: criterion, Weight: weight }));
+
+// Serialises the cleaned data in the chosen format, with the validation report,
+// rules and priorities as extra sheets or files when asked for. Rules are
+// always JSON since their parameters are nested.
+export const buildExport = async (source: ExportSource, config: ExportConfig): Promise<ExportResult> => {
+  const { data } = source;
+  if (COLLECTIONS.every(collection => data[collection].length === 0)) {
+    return { success: false, files: [], errors: ['There is no data to export'] };
+  }
+
+  const provenance = config.includeProvenance ? source.provenance : undefined;
+  const reportRows = buildReportRows(source.errors, data, source.fileNames, source.provenance.provenance);
+  const files: ExportFile[] = [];
+
+  switch (config.format) {
+    case 'csv':
+      // Fields are passed separately so that an empty collection still gets its header row
+      COLLECTIONS.forEach(collection => files.push({
+        name: `${collection}.csv`,
+        content: Papa.unparse({
+          fields: exportHeaders(collection, !!provenance),
+          data: toExportRows(data[collection], collection, provenance)
+        }),
+        type: 'text/csv'
+      }));
+      break;
+    case 'xlsx': {
+      // Entity sheets are named so that workbook upload detects them again
+      const sheets: WorkbookSheet[] = COLLECTIONS.map(collection => ({
+        name: ENTITY_SCHEMAS[collection].label,
+        rows: toExportRows(data[collection], collection, provenance),
+        header: exportHeaders(collection, !!provenance)
+      }));
+      if (config.includeValidation) sheets.push({ name: 'Validation', rows: toReportTable(reportRows) });
+      if (config.includePriorities) sheets.push({ name: 'Priorities', rows: priorityRows(source.priorities) });
+      files.push({ name: 'data.xlsx', content: writeWorkbook(sheets), type: XLSX_TYPE });
+      break;
+    }
+    case 'json':
+      // Same shape as a combined upload document
+      files.push({
+        name: 'data.json',
+        content: JSON.stringify(Object.fromEntries(COLLECTIONS.map(collection => [
+          collection,
+          toJsonRecords(data[collection], collection, provenance)
+        ])), null, 2),
+        type: 'application/json'
+      });
+      break;
+  }
+
+  if (config.includeValidation && config.format !== 'xlsx') {
+    const report = buildValidationReport(reportRows, config.format);
+    files.push({ name: report.fileName, content: report.content, type: report.type });
+  }
+  if (config.includeRules) {
+    const rules = await buildRulesDocument(source.rules, source.priorities, source.suppressions, data);
+    files.push({ name: 'rules.json', content: serializeRules(rules), type: 'application/json' });
+  }
+  if (config.includePriorities && config.format === 'csv') {
+    files.push({ name: 'priorities.csv', content: Papa.unparse(priorityRows(source.priorities)), type: 'text/csv' });
+  }
+  if (config.includePriorities && config.format === 'json') {
+    files.push({ name: 'priorities.json', content: JSON.stringify({ weights: source.priorities }, null, 2), type: 'application/json' });
+  }
+
+  return { success: true, files };
+};
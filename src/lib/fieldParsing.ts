@@ -0,0 +1,174 @@
+import { FieldSchema } from '@/lib/schema';
+
+// Converts raw uploaded cells into typed field values. Anything that is not
+// taken verbatim comes back with a note, so the upload can report it; values
+// that cannot be converted are kept as text for validation to flag, never NaN.
+
+export interface ParsedValue {
+  value: unknown;
+  notes: string[];
+}
+
+// Guards against "1-100000" producing a huge list
+const MAX_RANGE_LENGTH = 100;
+
+const isBlank = (raw: unknown) =>
+  raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '');
+
+const stripQuotes = (text: string) => text.replace(/^(["'])(.*)\1$/, '$2').trim();
+
+// Splits on any of the separators outside double or single quotes. A quote
+// only opens a quoted item as its first non-space character, so apostrophes
+// inside words ("O'Reilly") are plain text; one that never closes is too.
+const splitOutsideQuotes = (text: string, separators: string[], quoting = true): string[] => {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (quoting && (char === '"' || char === "'") && current.trim() === '') {
+      quote = char;
+      current += char;
+    } else if (separators.includes(char)) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (quote) return splitOutsideQuotes(text, separators, false);
+  items.push(current);
+
+  return items.map(item => stripQuotes(item.trim()));
+};
+
+// The field's own separator, plus ";" and "|" which spreadsheets often use instead
+const listSeparators = (field: FieldSchema) => Array.from(new Set([field.separator || ',', ';', '|']));
+
+const parseJsonArray = (text: string): unknown[] | undefined => {
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Whole numbers, ranges like "1-3", and labels like "Phase 2"
+const parseIntegerItem = (item: unknown): { values: unknown[]; note?: string } => {
+  if (typeof item === 'number') {
+    return Number.isInteger(item) ? { values: [item] } : { values: [item], note: `${item} is not a whole number` };
+  }
+
+  const text = String(item ?? '').trim();
+  if (/^-?\d+$/.test(text)) return { values: [parseInt(text, 10)] };
+
+  const range = text.match(/^(\d+)\s*(?:-|\.\.|to)\s*(\d+)$/i);
+  if (range) {
+    const start = parseInt(range[1], 10);
+    const end = parseInt(range[2], 10);
+    if (end < start) return { values: [text], note: `"${text}" is a reversed range` };
+    if (end - start + 1 > MAX_RANGE_LENGTH) return { values: [text], note: `"${text}" spans more than ${MAX_RANGE_LENGTH} values` };
+    return {
+      values: Array.from({ length: end - start + 1 }, (_, i) => start + i),
+      note: `expanded range "${text}"`
+    };
+  }
+
+  const labelled = text.match(/^[a-z][a-z\s]*?\s*(\d+)$/i);
+  if (labelled) {
+    return { values: [parseInt(labelled[1], 10)], note: `read "${text}" as ${labelled[1]}` };
+  }
+
+  return { values: [text], note: `"${text}" is not a whole number` };
+};
+
+export const parseListValue = (field: FieldSchema, raw: unknown): ParsedValue => {
+  const notes: string[] = [];
+  let items: unknown[];
+
+  if (isBlank(raw)) {
+    items = [];
+  } else if (Array.isArray(raw)) {
+    items = raw;
+  } else if (typeof raw === 'number') {
+    items = [raw];
+  } else {
+    const text = String(raw).trim();
+    const jsonItems = text.startsWith('[') ? parseJsonArray(text) : undefined;
+    if (jsonItems) {
+      items = jsonItems;
+      notes.push('read as a JSON array');
+    } else {
+      // An unparseable "[...]" is most likely a list with stray brackets
+      const body = text.startsWith('[') && text.endsWith(']') ? text.slice(1, -1) : text;
+      if (body !== text) notes.push('ignored surrounding brackets');
+      const separators = listSeparators(field);
+      const used = separators.filter(separator => separator !== (field.separator || ',') && body.includes(separator));
+      if (used.length > 0) notes.push(`split on "${used.join('", "')}"`);
+      items = splitOutsideQuotes(body, separators);
+    }
+  }
+
+  if (field.itemType !== 'integer') {
+    return { value: items.map(item => (typeof item === 'string' ? item.trim() : item)), notes };
+  }
+
+  const value: unknown[] = [];
+  items.forEach(item => {
+    if (isBlank(item)) {
+      value.push('');
+      return;
+    }
+    const parsed = parseIntegerItem(item);
+    value.push(...parsed.values);
+    if (parsed.note) notes.push(parsed.note);
+  });
+  return { value, notes };
+};
+
+export const parseNumberValue = (field: FieldSchema, raw: unknown): ParsedValue => {
+  const fallback = field.defaultValue ?? 0;
+  if (isBlank(raw)) {
+    return { value: fallback, notes: [`empty, used default ${fallback}`] };
+  }
+  if (typeof raw === 'number') {
+    return Number.isFinite(raw) ? { value: raw, notes: [] } : { value: fallback, notes: [`${raw} is not a number, used default ${fallback}`] };
+  }
+
+  const text = String(raw).trim();
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return { value: Number(text), notes: [] };
+  }
+
+  // Decimal comma from European files, e.g. "1,5" or "1.200,50". Exactly three
+  // digits after a single comma, as in "1,500", is read as thousands below.
+  const european = text.replace(/[€\s]/g, '');
+  if (/^-?(\d+|\d{1,3}(\.\d{3})+),\d+$/.test(european) && !/^-?\d{1,3},\d{3}$/.test(european)) {
+    const value = Number(european.replace(/\./g, '').replace(',', '.'));
+    return { value, notes: [`read "${text}" as ${value}`] };
+  }
+
+  // Currency symbols and thousands separators, e.g. "$1,200"
+  const cleaned = text.replace(/[$€£,\s]/g, '');
+  if (/^-?\d+(\.\d+)?$/.test(cleaned)) {
+    return { value: Number(cleaned), notes: [`read "${text}" as ${Number(cleaned)}`] };
+  }
+
+  return { value: text, notes: [`"${text}" is not a number`] };
+};
+
+// Typed value for any schema field; text and JSON fields are taken as they are
+export const parseFieldValue = (field: FieldSchema, raw: unknown): ParsedValue => {
+  switch (field.type) {
+    case 'list':
+      return parseListValue(field, raw);
+    case 'number':
+      return parseNumberValue(field, raw);
+    default:
+      return { value: raw, notes: [] };
+  }
+};
@@ -0,0 +1,175 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { CsvFormat, detectCsvFormat, isDelimitedText } from '@/lib/csvFormat';
+
+export type RawRow = Record<string, unknown>;
+
+export interface ParsedSheet {
+  name: string;
+  rows: RawRow[];
+  // Where each entry in rows sits in the file: the spreadsheet row with the
+  // header as row 1, the line for NDJSON, or the 1-based record for JSON
+  rowNumbers: number[];
+  format?: CsvFormat; // How a delimited text file was read
+}
+
+export interface ParseProgress {
+  rows: number; // Rows parsed so far
+  fraction: number; // Share of the file read, 0-1
+}
+
+export type ProgressCallback = (progress: ParseProgress) => void;
+
+// Papa reads the file one chunk at a time
+const CSV_CHUNK_SIZE = 1024 * 1024;
+
+// Rows between progress reports while a CSV is read
+const PROGRESS_INTERVAL = 5000;
+
+export const ACCEPTED_FILES = '.csv,.tsv,.txt,.xlsx,.json,.ndjson,.jsonl';
+
+const isJson = (file: File) => file.name.endsWith('.json') || file.type === 'application/json';
+const isNdjson = (file: File) => /\.(ndjson|jsonl)$/.test(file.name) || file.type === 'application/x-ndjson';
+
+export const isSupportedFile = (file: File) =>
+  isDelimitedText(file) || isJson(file) || isNdjson(file) || file.name.endsWith('.xlsx');
+
+const readArrayBuffer = (file: File): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+const lineBreaks = (value: unknown): number => {
+  if (typeof value === 'string') return value.split('\n').length - 1;
+  return Array.isArray(value) ? value.reduce((sum: number, item) => sum + lineBreaks(item), 0) : 0;
+};
+
+// A line Papa would skip with skipEmptyLines: one field, and that empty
+const isBlankRecord = (values: unknown[]) => values.length === 1 && values[0] === '';
+
+// Streams the file through Papa so progress can be reported while it is read.
+// Blank lines are kept in the stream and dropped here, so a running line count
+// (each record's line plus the breaks inside its cells) numbers every row by
+// the line it starts on, whatever chunk it arrives in.
+const parseCsv = (file: File, format: CsvFormat, onProgress?: ProgressCallback): Promise<Omit<ParsedSheet, 'name'>> =>
+  new Promise((resolve, reject) => {
+    const rows: RawRow[] = [];
+    const rowNumbers: number[] = [];
+    const errors: string[] = [];
+    let line = 0; // Where the next record starts, once the header is read
+
+    Papa.parse<RawRow>(file, {
+      header: true,
+      delimiter: format.delimiter,
+      encoding: format.encoding,
+      skipEmptyLines: false,
+      chunkSize: CSV_CHUNK_SIZE,
+      step: (results) => {
+        if (line === 0) line = 2 + lineBreaks(results.meta.fields || []);
+        const values = Object.values(results.data);
+        const start = line;
+        line += 1 + lineBreaks(values);
+        if (isBlankRecord(values)) return;
+
+        rows.push(results.data);
+        rowNumbers.push(start);
+        results.errors.forEach(e => errors.push(e.message));
+        if (rows.length % PROGRESS_INTERVAL === 0) {
+          onProgress?.({ rows: rows.length, fraction: file.size ? Math.min(1, results.meta.cursor / file.size) : 1 });
+        }
+      },
+      complete: () => {
+        if (errors.length > 0) {
+          reject(new Error(`CSV parsing errors: ${errors.join(', ')}`));
+        } else {
+          onProgress?.({ rows: rows.length, fraction: 1 });
+          resolve({ rows, rowNumbers });
+        }
+      },
+      error: (error) => reject(error)
+    });
+  });
+
+const isRecord = (value: unknown): value is RawRow =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toRecords = (items: unknown[], source: string): RawRow[] =>
+  items.map((item, index) => {
+    if (!isRecord(item)) throw new Error(`${source}: record ${index + 1} is not an object`);
+    return item;
+  });
+
+// A JSON array of records, or an object holding arrays of records such as a
+// combined {clients, workers, tasks} document, each of which becomes a sheet.
+// List fields may be nested arrays; processing reads them as they are.
+const parseJson = (file: File, text: string): ParsedSheet[] => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${file.name} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const toSheet = (name: string, items: unknown[]) => {
+    const rows = toRecords(items, name === file.name ? name : `${file.name} [${name}]`);
+    return { name, rows, rowNumbers: rows.map((_, index) => index + 1) };
+  };
+
+  if (Array.isArray(document)) return [toSheet(file.name, document)];
+  if (isRecord(document)) {
+    const sheets = Object.entries(document)
+      .filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+      .map(([name, items]) => toSheet(name, items));
+    if (sheets.length > 0) return sheets;
+  }
+  throw new Error(`${file.name} holds no list of records`);
+};
+
+// One record per line; blank lines are skipped
+const parseNdjson = (file: File, text: string): ParsedSheet[] => {
+  const rows: RawRow[] = [];
+  const rowNumbers: number[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`${file.name} line ${index + 1} is not valid JSON`);
+    }
+    if (!isRecord(record)) throw new Error(`${file.name} line ${index + 1} is not an object`);
+    rows.push(record);
+    rowNumbers.push(index + 1);
+  });
+  return [{ name: file.name, rows, rowNumbers }];
+};
+
+// Every sheet of a delimited text, JSON or XLSX file. Text files yield a single sheet
+// named after the file, read with the given format or the detected one.
+export const parseWorkbook = async (file: File, onProgress?: ProgressCallback, csvFormat?: CsvFormat): Promise<ParsedSheet[]> => {
+  if (isJson(file) || isNdjson(file)) {
+    const sheets = isNdjson(file) ? parseNdjson(file, await file.text()) : parseJson(file, await file.text());
+    onProgress?.({ rows: sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0), fraction: 1 });
+    return sheets;
+  }
+  if (isDelimitedText(file)) {
+    const format = csvFormat || await detectCsvFormat(file);
+    return [{ name: file.name, ...await parseCsv(file, format, onProgress), format }];
+  }
+  if (file.name.endsWith('.xlsx')) {
+    const workbook = XLSX.read(new Uint8Array(await readArrayBuffer(file)), { type: 'array' });
+    let rowCount = 0;
+    return workbook.SheetNames.map((name, index) => {
+      const rows = XLSX.utils.sheet_to_json<RawRow>(workbook.Sheets[name]);
+      rowCount += rows.length;
+      onProgress?.({ rows: rowCount, fraction: (index + 1) / workbook.SheetNames.length });
+      // sheet_to_json skips blank rows but records each row's 0-based position
+      const rowNumbers = rows.map((row, i) => ((row as { __rowNum__?: number }).__rowNum__ ?? i + 1) + 1);
+      return { name, rows, rowNumbers };
+    });
+  }
+  throw new Error('Unsupported file type');
+};
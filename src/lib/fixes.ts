@@ -0,0 +1,89 @@
+import { DataEntity, DataSet, EntityCollection, ValidationError, ValidationFix } from '@/types/data';
+import { ENTITY_COLLECTIONS, ID_FIELDS, isNumericListField } from '@/lib/schema';
+
+export interface FixChange {
+  error: ValidationError;
+  collection: EntityCollection;
+  rowIndex: number;
+  entityId: string;
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const isBlank = (item: unknown) =>
+  item === undefined || item === null || (typeof item === 'string' && item.trim() === '');
+
+const toList = (value: unknown, numeric: boolean): unknown[] => {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',').map(item => item.trim())
+      : isBlank(value) ? [] : [value];
+
+  return items
+    .filter(item => !isBlank(item))
+    .map(item => (numeric && typeof item === 'string' && !isNaN(Number(item)) ? Number(item) : item));
+};
+
+const fixedValue = (value: unknown, fix: ValidationFix, numericList: boolean): unknown => {
+  const list = Array.isArray(value) ? value : [];
+
+  switch (fix.type) {
+    case 'setField':
+      return fix.value;
+    case 'removeArrayElement':
+      return list.filter(item => String(item).trim() !== String(fix.value));
+    case 'replaceReference':
+      return list.map(item => (String(item).trim() === fix.from ? fix.to : item));
+    case 'normalise':
+      switch (fix.normaliser) {
+        case 'toList':
+          return toList(value, numericList);
+        case 'removeEmptyEntries':
+          return list.filter(item => !isBlank(item));
+        case 'removeNonIntegers':
+          return list.filter(item => Number.isInteger(item));
+        case 'wrapJson':
+          return JSON.stringify({ note: value });
+      }
+  }
+};
+
+// Locates the row a finding points at. rowIndex is preferred, falling back to
+// the entity id in case rows moved since validation ran.
+const findRow = (rows: DataEntity[], error: ValidationError) => {
+  if (error.rowIndex !== undefined && rows[error.rowIndex]?.id === error.entityId) {
+    return error.rowIndex;
+  }
+  return rows.findIndex(row => row.id === error.entityId);
+};
+
+// Applies the fixes attached to the given findings in order, so several fixes
+// on the same cell compose. Findings without a fix or whose row is gone are skipped.
+export const applyFixes = (data: DataSet, errors: ValidationError[]): { data: DataSet; changes: FixChange[] } => {
+  const next: DataSet = { clients: [...data.clients], workers: [...data.workers], tasks: [...data.tasks] };
+  const changes: FixChange[] = [];
+
+  errors.forEach(error => {
+    if (!error.fix) return;
+    const collection = ENTITY_COLLECTIONS[error.entityType];
+    const rows = next[collection];
+    const rowIndex = findRow(rows, error);
+    if (rowIndex < 0) return;
+
+    const row = rows[rowIndex];
+    const before = row[error.field];
+    const after = fixedValue(before, error.fix, isNumericListField(collection, error.field));
+    if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+    const updated = { ...row, [error.field]: after };
+    if (error.field === ID_FIELDS[collection]) {
+      updated.id = String(after);
+    }
+    rows[rowIndex] = updated;
+    changes.push({ error, collection, rowIndex, entityId: row.id, field: error.field, before, after });
+  });
+
+  return { data: next, changes };
+};
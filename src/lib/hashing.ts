@@ -0,0 +1,17 @@
+import { DataSet } from '@/types/data';
+import { COLLECTIONS, fieldNames } from '@/lib/schema';
+
+// Hex SHA-256 through Web Crypto, which browsers and workers both provide
+export const sha256 = async (content: string | BufferSource) => {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Identifies the data rules were built against. Only schema fields count, in
+// schema order, so internal ids and extra columns do not change it.
+export const datasetFingerprint = (data: DataSet) =>
+  sha256(JSON.stringify(COLLECTIONS.map(collection => {
+    const fields = fieldNames(collection);
+    return data[collection].map(row => fields.map(field => row[field] ?? null));
+  })));
@@ -0,0 +1,229 @@
+import { EntityCollection } from '@/types/data';
+import { ENTITY_SCHEMAS, FieldSchema } from '@/lib/schema';
+import { RawRow } from '@/lib/fileParsing';
+import { similarity } from '@/lib/stringSimilarity';
+
+// Source header -> schema field name, or null to keep the column unmapped
+export type HeaderMapping = Record<string, string | null>;
+
+export type SampleType = 'empty' | 'integer' | 'number' | 'list' | 'json' | 'text';
+
+export interface MappingProposal {
+  header: string;
+  target: string | null;
+  confidence: number; // 0-1, combining name similarity and sample type fit
+  samples: string[];
+  sampleType: SampleType;
+}
+
+// A proposed target for one column with a human-readable reason, as returned by /api/map-headers
+export interface HeaderMappingSuggestion {
+  header: string;
+  target: string | null;
+  confidence: number;
+  rationale: string;
+}
+
+// Below this a header is left unmapped rather than guessed
+const MIN_CONFIDENCE = 0.5;
+const SAMPLE_SIZE = 20;
+
+export const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Splits "Req. Tasks", "RequestedTaskIDs" or "max_load" into lowercase words
+const tokenize = (text: string) =>
+  text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Every header word abbreviates the corresponding name word, as "Req. Tasks" does "Requested Tasks"
+const isAbbreviation = (header: string, name: string) => {
+  const headerTokens = tokenize(header);
+  const nameTokens = tokenize(name);
+  return headerTokens.length === nameTokens.length &&
+    headerTokens.every((token, i) => nameTokens[i].startsWith(token));
+};
+
+// Every name word is abbreviated by some header word, with extra header words
+// allowed, as "Cust Prio" does "Priority"
+const coversAbbreviated = (header: string, name: string) => {
+  const headerTokens = tokenize(header).filter(token => token.length >= 3);
+  return tokenize(name).every(nameToken => headerTokens.some(token => nameToken.startsWith(token)));
+};
+
+const candidateNames = (field: FieldSchema) => [field.name, ...field.aliases];
+
+// How well a header's text matches a field, from 0 to 1
+export const nameScore = (header: string, field: FieldSchema): number => {
+  const normalizedHeader = normalizeHeader(header);
+  return Math.max(...candidateNames(field).map(name => {
+    const normalizedName = normalizeHeader(name);
+    if (!normalizedHeader || !normalizedName) return 0;
+    if (normalizedHeader === normalizedName) return 1;
+    if (isAbbreviation(header, name)) return 0.85;
+    if (coversAbbreviated(header, name)) return 0.75;
+    // "Cust Priority" contains "priority"; longer overlaps count for more
+    if (normalizedHeader.includes(normalizedName)) {
+      return 0.6 + 0.3 * (normalizedName.length / normalizedHeader.length);
+    }
+    return similarity(normalizedHeader, normalizedName);
+  }));
+};
+
+const formatSample = (value: unknown) =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '').trim();
+
+export const sampleValues = (rows: RawRow[], header: string) =>
+  rows.slice(0, SAMPLE_SIZE).map(row => formatSample(row[header])).filter(Boolean);
+
+// Guesses the kind of data a column holds from its non-empty sample values
+export const sniffType = (samples: string[]): SampleType => {
+  if (samples.length === 0) return 'empty';
+  if (samples.every(value => /^-?\d+$/.test(value))) return 'integer';
+  if (samples.every(value => value !== '' && !isNaN(Number(value)))) return 'number';
+  if (samples.every(value => /^[[{]/.test(value))) {
+    try {
+      samples.forEach(value => JSON.parse(value));
+      return 'json';
+    } catch {
+      // Falls through to list or text detection
+    }
+  }
+  if (samples.some(value => /[,;|]/.test(value))) return 'list';
+  return 'text';
+};
+
+// 1 when the samples look like the field's type, 0.5 when undecidable, 0 when they clash
+const typeScore = (sampleType: SampleType, field: FieldSchema): number => {
+  if (sampleType === 'empty') return 0.5;
+  switch (field.type) {
+    case 'number':
+      return sampleType === 'integer' || (sampleType === 'number' && !field.integer) ? 1 : 0;
+    case 'list':
+      // Single-item lists look like plain values, JSON arrays are lists too
+      if (sampleType === 'list' || sampleType === 'json') return 1;
+      if (field.itemType === 'integer') return sampleType === 'integer' ? 1 : 0;
+      return sampleType === 'text' ? 1 : 0.5;
+    case 'json':
+      return sampleType === 'json' ? 1 : 0.5;
+    default:
+      return sampleType === 'text' || sampleType === 'list' ? 1 : 0.5;
+  }
+};
+
+export const fieldConfidence = (header: string, sampleType: SampleType, field: FieldSchema) =>
+  nameScore(header, field) * 0.8 + typeScore(sampleType, field) * 0.2;
+
+// Schema field a source header maps to, or undefined if none matches well enough
+export const matchHeader = (header: string, collection: EntityCollection): string | undefined => {
+  let best: string | undefined;
+  let bestScore = MIN_CONFIDENCE;
+  ENTITY_SCHEMAS[collection].fields.forEach(field => {
+    const score = nameScore(header, field);
+    if (score > bestScore) {
+      best = field.name;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const headersOf = (rows: RawRow[]) => Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+// Proposes a target for every source header. Each field is claimed by at
+// most one header, highest confidence first.
+export const proposeMapping = (
+  rows: RawRow[],
+  collection: EntityCollection,
+  headers: string[] = headersOf(rows)
+): MappingProposal[] => {
+  const fields = ENTITY_SCHEMAS[collection].fields;
+  const columns = headers.map(header => {
+    const samples = sampleValues(rows, header);
+    return { header, samples, sampleType: sniffType(samples) };
+  });
+
+  const candidates = columns
+    .flatMap(column => fields.map(field => ({
+      header: column.header,
+      field: field.name,
+      confidence: fieldConfidence(column.header, column.sampleType, field)
+    })))
+    .filter(candidate => candidate.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const chosen = new Map<string, { field: string; confidence: number }>();
+  const usedFields = new Set<string>();
+  candidates.forEach(({ header, field, confidence }) => {
+    if (chosen.has(header) || usedFields.has(field)) return;
+    chosen.set(header, { field, confidence });
+    usedFields.add(field);
+  });
+
+  return columns.map(column => ({
+    ...column,
+    target: chosen.get(column.header)?.field ?? null,
+    confidence: chosen.get(column.header)?.confidence ?? 0
+  }));
+};
+
+// Explains a proposal in terms of the closest name and the sniffed value type
+const explainProposal = (proposal: MappingProposal, collection: EntityCollection): string => {
+  const sampleNote = proposal.sampleType === 'empty'
+    ? 'no sample values to check'
+    : `sample values look like ${proposal.sampleType}`;
+  const field = proposal.target ? ENTITY_SCHEMAS[collection].fields.find(f => f.name === proposal.target) : undefined;
+  if (!field) {
+    return `No field name or alias is similar enough; ${sampleNote}`;
+  }
+
+  const closest = candidateNames(field)
+    .map(name => ({ name, score: nameScore(proposal.header, { ...field, name, aliases: [] }) }))
+    .sort((a, b) => b.score - a.score)[0];
+  const fit = typeScore(proposal.sampleType, field) === 0 ? `, which does not fit a ${field.type} field` : '';
+  return `Header resembles "${closest.name}" (${Math.round(closest.score * 100)}% name match); ${sampleNote}${fit}`;
+};
+
+// Deterministic mapping suggestions, used when no LLM is configured
+export const suggestMapping = (
+  headers: string[],
+  rows: RawRow[],
+  collection: EntityCollection
+): HeaderMappingSuggestion[] =>
+  proposeMapping(rows, collection, headers).map(proposal => ({
+    header: proposal.header,
+    target: proposal.target,
+    confidence: proposal.confidence,
+    rationale: explainProposal(proposal, collection)
+  }));
+
+export const toHeaderMapping = (proposals: MappingProposal[]): HeaderMapping =>
+  Object.fromEntries(proposals.map(proposal => [proposal.header, proposal.target]));
+
+// Required schema fields no source header is mapped to
+export const unmappedRequiredFields = (mapping: HeaderMapping, collection: EntityCollection) => {
+  const mapped = new Set(Object.values(mapping));
+  return ENTITY_SCHEMAS[collection].fields.filter(field => field.required && !mapped.has(field.name));
+};
+
+// Renames source headers to schema field names; unmapped headers are kept as-is.
+// Without an explicit mapping the proposed one is used.
+export const mapHeaders = (rawData: RawRow[], collection: EntityCollection, mapping?: HeaderMapping): RawRow[] => {
+  if (rawData.length === 0) return rawData;
+
+  const headerMapping = mapping || toHeaderMapping(proposeMapping(rawData, collection));
+  const targets = new Set(Object.values(headerMapping));
+
+  return rawData.map(row => {
+    const transformedRow: RawRow = {};
+    Object.keys(row).forEach(key => {
+      const target = headerMapping[key];
+      // An unmapped column never shadows a field another column was mapped to
+      if (target) transformedRow[target] = row[key];
+      else if (!targets.has(key)) transformedRow[key] = row[key];
+    });
+    return transformedRow;
+  });
+};
@@ -0,0 +1,86 @@
+import { EntityCollection } from '@/types/data';
+import { COLLECTIONS } from '@/lib/schema';
+import { RawRow } from '@/lib/fileParsing';
+import { HeaderMapping, headersOf, normalizeHeader, proposeMapping, toHeaderMapping } from '@/lib/headerMapping';
+
+// A confirmed header mapping saved under a name, applied automatically when
+// a file with the same set of headers is uploaded again
+export interface MappingProfile {
+  id: string;
+  name: string;
+  collection: EntityCollection;
+  signature: string;
+  mapping: HeaderMapping;
+  createdAt: string;
+}
+
+const STORAGE_KEY = 'digitly.mappingProfiles';
+
+// Order- and formatting-insensitive key for a header set
+export const headerSignature = (headers: string[]) =>
+  Array.from(new Set(headers.map(normalizeHeader))).sort().join('|');
+
+export const createProfile = (
+  name: string,
+  collection: EntityCollection,
+  headers: string[],
+  mapping: HeaderMapping
+): MappingProfile => ({
+  id: `profile-${Date.now()}-${collection}`,
+  name,
+  collection,
+  signature: headerSignature(headers),
+  mapping,
+  createdAt: new Date().toISOString()
+});
+
+// Most recently saved profile for this entity type and header set
+export const findProfile = (profiles: MappingProfile[], collection: EntityCollection, headers: string[]) => {
+  const signature = headerSignature(headers);
+  return profiles
+    .filter(profile => profile.collection === collection && profile.signature === signature)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+};
+
+// Starting mapping for an upload: the proposal, overridden by a matching saved profile
+export const initialMapping = (rows: RawRow[], collection: EntityCollection, profiles: MappingProfile[]) => {
+  const proposed = toHeaderMapping(proposeMapping(rows, collection));
+  const profile = findProfile(profiles, collection, headersOf(rows));
+  return { mapping: profile ? { ...proposed, ...profile.mapping } : proposed, profile };
+};
+
+const isProfile = (value: unknown): value is MappingProfile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const profile = value as Partial<MappingProfile>;
+  return typeof profile.id === 'string' &&
+    typeof profile.name === 'string' &&
+    COLLECTIONS.includes(profile.collection as EntityCollection) &&
+    typeof profile.signature === 'string' &&
+    typeof profile.mapping === 'object' && profile.mapping !== null &&
+    typeof profile.createdAt === 'string';
+};
+
+// Profiles from stored or shared JSON; anything malformed is dropped
+export const parseProfiles = (text: string): MappingProfile[] => {
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed.filter(isProfile) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Incoming profiles replace current ones with the same id
+export const mergeProfiles = (current: MappingProfile[], incoming: MappingProfile[]) => {
+  const incomingIds = new Set(incoming.map(profile => profile.id));
+  return [...current.filter(profile => !incomingIds.has(profile.id)), ...incoming];
+};
+
+export const loadProfiles = (): MappingProfile[] => {
+  if (typeof window === 'undefined') return [];
+  return parseProfiles(window.localStorage.getItem(STORAGE_KEY) || '[]');
+};
+
+export const saveProfiles = (profiles: MappingProfile[]) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
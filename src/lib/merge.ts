@@ -0,0 +1,141 @@
+import { DataEntity, EntityCollection } from '@/types/data';
+import { ENTITY_SCHEMAS, fieldNames } from '@/lib/schema';
+
+export type MergeStrategy = 'replace' | 'upsert' | 'append';
+
+// Fields changed by hand in the grid since upload, keyed by internal row id
+export type EditLog = Record<EntityCollection, Record<string, string[]>>;
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  keptEdit: boolean; // Manually edited value kept instead of the incoming one
+}
+
+export interface RowChange {
+  id: string;
+  businessId: string;
+  changes: FieldChange[];
+}
+
+export interface MergeResult {
+  rows: DataEntity[];
+  added: DataEntity[];
+  removed: DataEntity[];
+  changed: RowChange[];
+  edits: Record<string, string[]>; // Edit log for the collection after the merge
+  origins: Record<string, string>; // Incoming row id each added or updated row took values from
+}
+
+export const emptyEditLog = (): EditLog => ({ clients: {}, workers: {}, tasks: {} });
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const changedFields = (before: DataEntity, after: DataEntity, collection: EntityCollection) =>
+  fieldNames(collection).filter(field => !sameValue(before[field], after[field]));
+
+// Adds the fields that differ between two versions of a collection to the log
+export const recordEdits = (
+  log: EditLog,
+  collection: EntityCollection,
+  before: DataEntity[],
+  after: DataEntity[]
+): EditLog => {
+  const previous = new Map(before.map(row => [row.id, row]));
+  const edits = { ...log[collection] };
+  after.forEach(row => {
+    const old = previous.get(row.id);
+    if (!old || old === row) return;
+    const fields = changedFields(old, row, collection);
+    if (fields.length > 0) {
+      edits[row.id] = Array.from(new Set([...(edits[row.id] || []), ...fields]));
+    }
+  });
+  return { ...log, [collection]: edits };
+};
+
+const businessIdOf = (row: DataEntity, collection: EntityCollection) =>
+  String(row[ENTITY_SCHEMAS[collection].idField] ?? '').trim();
+
+// Merges freshly processed rows into the current ones, matching on business ID.
+//  - replace: the file becomes the collection; rows missing from it are removed
+//  - upsert: matching rows are updated, new ones added, nothing removed
+//  - append: only rows with new IDs are added
+// Manually edited fields keep their current value unless overwriteEdits is set.
+// Only incomingFields are updated on matching rows, so a file with just a few
+// columns does not reset the others to their defaults.
+export const mergeRows = (
+  existing: DataEntity[],
+  incoming: DataEntity[],
+  collection: EntityCollection,
+  strategy: MergeStrategy,
+  edits: Record<string, string[]>,
+  overwriteEdits: boolean,
+  incomingFields: string[] = fieldNames(collection)
+): MergeResult => {
+  const updatable = new Set(incomingFields);
+  const incomingById = new Map<string, DataEntity>();
+  incoming.forEach(row => {
+    const businessId = businessIdOf(row, collection);
+    if (businessId && !incomingById.has(businessId)) incomingById.set(businessId, row);
+  });
+  const existingIds = new Set(existing.map(row => businessIdOf(row, collection)));
+
+  const nextEdits = { ...edits };
+  const changed: RowChange[] = [];
+  const removed: DataEntity[] = [];
+  const kept: DataEntity[] = [];
+  const origins: Record<string, string> = {};
+
+  existing.forEach(row => {
+    const businessId = businessIdOf(row, collection);
+    const update = incomingById.get(businessId);
+    if (!update || strategy === 'append') {
+      if (strategy === 'replace') removed.push(row);
+      else kept.push(row);
+      return;
+    }
+
+    const edited = new Set(edits[row.id] || []);
+    const changes = changedFields(row, update, collection).filter(field => updatable.has(field)).map(field => ({
+      field,
+      before: row[field],
+      after: update[field],
+      keptEdit: edited.has(field) && !overwriteEdits
+    }));
+
+    const merged: DataEntity = { ...row };
+    changes.forEach(change => {
+      if (!change.keptEdit) merged[change.field] = change.after;
+    });
+    if (overwriteEdits && nextEdits[row.id]) {
+      const remaining = nextEdits[row.id].filter(field => !updatable.has(field));
+      if (remaining.length > 0) nextEdits[row.id] = remaining;
+      else delete nextEdits[row.id];
+    }
+
+    if (changes.length > 0) changed.push({ id: row.id, businessId, changes });
+    if (changes.some(change => !change.keptEdit)) origins[row.id] = update.id;
+    kept.push(merged);
+  });
+
+  // New rows keep their processed id unless it clashes with a current row
+  const usedIds = new Set(kept.map(row => row.id));
+  const added = incoming
+    .filter(row => {
+      const businessId = businessIdOf(row, collection);
+      return !businessId || !existingIds.has(businessId);
+    })
+    .map(row => {
+      let id = row.id;
+      for (let n = 2; usedIds.has(id); n++) id = `${row.id}-${n}`;
+      usedIds.add(id);
+      origins[id] = row.id;
+      return { ...row, id };
+    });
+
+  removed.forEach(row => delete nextEdits[row.id]);
+
+  return { rows: [...kept, ...added], added, removed, changed, edits: nextEdits, origins };
+};
@@ -0,0 +1,80 @@
+import { ParsedSheet, parseWorkbook } from '@/lib/fileParsing';
+import { headersOf, mapHeaders, proposeMapping, toHeaderMapping } from '@/lib/headerMapping';
+import { processData } from '@/lib/processing';
+import { validateColumns } from '@/lib/validation';
+import { fieldNames } from '@/lib/schema';
+import { buildProvenance } from '@/lib/provenance';
+import type { WorkerRequest, WorkerResponse } from '@/lib/parseJob';
+
+// Parses one file off the main thread and keeps its rows until they are
+// processed, so only previews and finished entities cross to the page.
+
+const ctx = self as unknown as Worker;
+let fileName = '';
+let sheets: ParsedSheet[] = [];
+
+// Enough to see what went wrong without flooding the page for huge files
+const MAX_WARNINGS = 500;
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error occurred');
+
+ctx.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  if (request.type === 'parse') {
+    try {
+      fileName = request.file.name;
+      sheets = await parseWorkbook(request.file, progress => post({ type: 'progress', progress }), request.csvFormat);
+      post({
+        type: 'parsed',
+        sheets: sheets.map(sheet => ({
+          name: sheet.name,
+          rows: sheet.rows.slice(0, request.previewRows),
+          totalRows: sheet.rows.length,
+          format: sheet.format
+        }))
+      });
+    } catch (error) {
+      post({ type: 'error', message: errorMessage(error) });
+    }
+    return;
+  }
+
+  try {
+    const sheet = sheets.find(s => s.name === request.sheet);
+    if (!sheet) throw new Error(`Sheet "${request.sheet}" not found`);
+
+    const { collection } = request;
+    const mapping = request.mapping || toHeaderMapping(proposeMapping(sheet.rows, collection));
+    const mapped = mapHeaders(sheet.rows, collection, mapping);
+    const present = new Set(headersOf(mapped));
+    const { rows, warnings } = processData(mapped, collection);
+
+    // Reported against the user's own file, sheet and column names
+    const source = sheet.name === fileName ? fileName : `${fileName} [${sheet.name}]`;
+    const sourceHeader = (field: string) => Object.keys(mapping).find(header => mapping[header] === field) || field;
+    const messages = warnings
+      .slice(0, MAX_WARNINGS)
+      .map(warning => `${source} row ${sheet.rowNumbers[warning.rowIndex]}, column "${sourceHeader(warning.field)}": ${warning.message}`);
+    if (warnings.length > MAX_WARNINGS) {
+      messages.push(`${source}: ${warnings.length - MAX_WARNINGS} more values were converted or could not be read`);
+    }
+
+    post({
+      type: 'processed',
+      requestId: request.requestId,
+      result: {
+        rows,
+        provenance: buildProvenance(rows, mapped, sheet.rowNumbers, fileName, sheet.name === fileName ? undefined : sheet.name),
+        warnings: messages,
+        fields: fieldNames(collection).filter(field => present.has(field)),
+        // Column checks must run before processData fills in defaults
+        columnErrors: validateColumns(mapped, collection)
+      }
+    });
+  } catch (error) {
+    post({ type: 'error', requestId: request.requestId, message: errorMessage(error) });
+  }
+};
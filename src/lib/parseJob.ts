@@ -0,0 +1,121 @@
+import { DataEntity, EntityCollection, ValidationError } from '@/types/data';
+import { ParseProgress, RawRow } from '@/lib/fileParsing';
+import { HeaderMapping } from '@/lib/headerMapping';
+import { RowProvenance } from '@/lib/provenance';
+import { CsvFormat } from '@/lib/csvFormat';
+
+// Rows per sheet sent back to the page for review and detection. The full
+// sheet stays in the worker until it is processed.
+export const PREVIEW_ROWS = 200;
+
+export interface SheetPreview {
+  name: string;
+  rows: RawRow[]; // At most PREVIEW_ROWS
+  totalRows: number;
+  format?: CsvFormat; // Delimited text files only
+}
+
+export interface ProcessedSheet {
+  rows: DataEntity[];
+  provenance: Record<string, RowProvenance>; // By row id
+  fields: string[]; // Schema fields present after mapping
+  warnings: string[]; // Coerced or unreadable values, by file, row and column
+  columnErrors: ValidationError[];
+}
+
+export type WorkerRequest =
+  | { type: 'parse'; file: File; previewRows: number; csvFormat?: CsvFormat }
+  | { type: 'process'; requestId: number; sheet: string; collection: EntityCollection; mapping?: HeaderMapping };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'parsed'; sheets: SheetPreview[] }
+  | { type: 'processed'; requestId: number; result: ProcessedSheet }
+  | { type: 'error'; requestId?: number; message: string };
+
+// One file being parsed in its own worker
+export interface ParseJob {
+  file: File;
+  parsed: Promise<SheetPreview[]>;
+  process: (sheet: string, collection: EntityCollection, mapping?: HeaderMapping) => Promise<ProcessedSheet>;
+  cancel: () => void; // Stops the worker and frees the rows it holds
+}
+
+// Preview rows of one sheet standing in for an entity type, before mapping
+export interface UploadSource {
+  fileName: string;
+  sheet: string;
+  rows: RawRow[];
+  totalRows: number;
+  job: ParseJob;
+}
+
+const cancelledError = () => Object.assign(new Error('Upload cancelled'), { name: 'AbortError' });
+
+export const isCancellation = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+// csvFormat overrides the detected layout of a delimited text file
+export const createParseJob = (
+  file: File,
+  onProgress?: (progress: ParseProgress) => void,
+  csvFormat?: CsvFormat
+): ParseJob => {
+  const worker = new Worker(new URL('./parse.worker.ts', import.meta.url));
+  const pending = new Map<number, { resolve: (result: ProcessedSheet) => void; reject: (error: Error) => void }>();
+  let nextRequestId = 1;
+  let rejectParsed: (error: Error) => void = () => {};
+
+  const failAll = (error: Error) => {
+    rejectParsed(error);
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  const parsed = new Promise<SheetPreview[]>((resolve, reject) => {
+    rejectParsed = reject;
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'parsed':
+          resolve(message.sheets);
+          break;
+        case 'processed':
+          pending.get(message.requestId)?.resolve(message.result);
+          pending.delete(message.requestId);
+          break;
+        case 'error':
+          if (message.requestId === undefined) {
+            reject(new Error(message.message));
+          } else {
+            pending.get(message.requestId)?.reject(new Error(message.message));
+            pending.delete(message.requestId);
+          }
+          break;
+      }
+    };
+    worker.onerror = (e) => failAll(new Error(e.message || 'File parsing failed'));
+  });
+  // Jobs started only for detection may never be awaited
+  parsed.catch(() => {});
+
+  const post = (request: WorkerRequest) => worker.postMessage(request);
+  post({ type: 'parse', file, previewRows: PREVIEW_ROWS, csvFormat });
+
+  return {
+    file,
+    parsed,
+    process: (sheet, collection, mapping) =>
+      new Promise((resolve, reject) => {
+        const requestId = nextRequestId++;
+        pending.set(requestId, { resolve, reject });
+        post({ type: 'process', requestId, sheet, collection, mapping });
+      }),
+    cancel: () => {
+      worker.terminate();
+      failAll(cancelledError());
+    }
+  };
+};
@@ -0,0 +1,59 @@
+import { DataSet, Suppression, ValidationError } from '@/types/data';
+import { runValidation } from '@/lib/runValidation';
+import { findSuppression } from '@/lib/suppressions';
+
+// Export preflight: validation run from scratch right before an export, so
+// nothing ships on the strength of a stale result. Open errors block the
+// export unless someone explicitly overrides them. Suppressed errors do not
+// block, but every export lists them so shipping them is on record.
+
+export interface PreflightResult {
+  errors: ValidationError[]; // Every open finding, suppressed ones left out
+  blocking: ValidationError[]; // Open findings of severity 'error'
+  suppressed: SuppressedError[]; // Findings of severity 'error' left out by a suppression
+  checkedAt: string;
+}
+
+export type ShippedError = Pick<ValidationError, 'code' | 'entityType' | 'entityId' | 'field' | 'message'>;
+
+export interface SuppressedError extends ShippedError {
+  reason: string; // Given when the finding was suppressed
+}
+
+// Who knowingly exported with open errors, and which ones
+export interface ExportOverride {
+  by: string; // As entered by the user, there is no sign-in to check it against
+  at: string;
+  errors: ShippedError[];
+  suppressed: SuppressedError[];
+}
+
+const toShipped = ({ code, entityType, entityId, field, message }: ValidationError): ShippedError =>
+  ({ code, entityType, entityId, field, message });
+
+export const runPreflight = (
+  data: DataSet,
+  columnErrors: ValidationError[],
+  suppressions: Suppression[]
+): PreflightResult => {
+  const errors: ValidationError[] = [];
+  const suppressed: SuppressedError[] = [];
+  [...columnErrors, ...runValidation(data)].forEach(error => {
+    const suppression = findSuppression(error, suppressions);
+    if (!suppression) errors.push(error);
+    else if (error.severity === 'error') suppressed.push({ ...toShipped(error), reason: suppression.reason });
+  });
+  return {
+    errors,
+    blocking: errors.filter(error => error.severity === 'error'),
+    suppressed,
+    checkedAt: new Date().toISOString()
+  };
+};
+
+export const createOverride = (by: string, blocking: ValidationError[], suppressed: SuppressedError[]): ExportOverride => ({
+  by: by.trim(),
+  at: new Date().toISOString(),
+  errors: blocking.map(toShipped),
+  suppressed
+});
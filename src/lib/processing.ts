@@ -0,0 +1,39 @@
+import { DataEntity, EntityCollection } from '@/types/data';
+import { ENTITY_SCHEMAS } from '@/lib/schema';
+import { RawRow } from '@/lib/fileParsing';
+import { parseFieldValue } from '@/lib/fieldParsing';
+
+// A value that was coerced or could not be converted, by position in the file
+export interface FieldWarning {
+  rowIndex: number; // 0-based position among the parsed rows
+  field: string;
+  message: string;
+}
+
+// Turns header-mapped rows into entities with typed list and number fields
+export const processData = (rawData: RawRow[], collection: EntityCollection): { rows: DataEntity[]; warnings: FieldWarning[] } => {
+  const schema = ENTITY_SCHEMAS[collection];
+  const usedIds = new Set<string>();
+  const warnings: FieldWarning[] = [];
+
+  const rows = rawData.map((row, index) => {
+    // Internal row id; duplicate business IDs get a suffix so rows stay distinct
+    const businessId = String(row[schema.idField] ?? '').trim();
+    const id = businessId && !usedIds.has(businessId) ? businessId : `${businessId || 'temp'}-${index}`;
+    usedIds.add(id);
+    const processedRow: DataEntity = { ...row, id };
+
+    // Coerce list and number fields according to the schema
+    schema.fields.forEach(field => {
+      if (field.type === 'list' || field.type === 'number') {
+        const { value, notes } = parseFieldValue(field, row[field.name]);
+        processedRow[field.name] = value;
+        notes.forEach(message => warnings.push({ rowIndex: index, field: field.name, message }));
+      }
+    });
+
+    return processedRow;
+  });
+
+  return { rows, warnings };
+};
@@ -0,0 +1,65 @@
+import { DataEntity, EntityCollection } from '@/types/data';
+import { RawRow } from '@/lib/fileParsing';
+import { EditLog, MergeResult } from '@/lib/merge';
+
+// Where a row came from, kept alongside the data so findings and exports can
+// point upstream owners at their own file
+export interface RowProvenance {
+  file: string;
+  sheet?: string; // Absent for CSV and other single-sheet files
+  row: number; // Row in the original file, as numbered by the parser
+  raw: RawRow; // Cell values under their mapped field names, before coercion
+}
+
+// Keyed by internal row id, like the edit log
+export type ProvenanceLog = Record<EntityCollection, Record<string, RowProvenance>>;
+
+export const emptyProvenanceLog = (): ProvenanceLog => ({ clients: {}, workers: {}, tasks: {} });
+
+// rawRows and rowNumbers run parallel to the processed rows
+export const buildProvenance = (
+  rows: DataEntity[],
+  rawRows: RawRow[],
+  rowNumbers: number[],
+  file: string,
+  sheet?: string
+): Record<string, RowProvenance> =>
+  Object.fromEntries(rows.map((row, index) => [
+    row.id,
+    { file, sheet, row: rowNumbers[index] ?? index + 2, raw: rawRows[index] }
+  ]));
+
+// Provenance of a collection after a merge. Rows taken or updated from the file
+// point at it; fields the file did not touch keep their earlier original value.
+export const mergeProvenance = (
+  current: Record<string, RowProvenance>,
+  incoming: Record<string, RowProvenance>,
+  result: MergeResult
+): Record<string, RowProvenance> =>
+  Object.fromEntries(result.rows.flatMap(row => {
+    const origin = result.origins[row.id];
+    const fromFile = origin !== undefined ? incoming[origin] : undefined;
+    const previous = current[row.id];
+    if (!fromFile) return previous ? [[row.id, previous]] : [];
+    return [[row.id, { ...fromFile, raw: { ...previous?.raw, ...fromFile.raw } }]];
+  }));
+
+// Follows rows whose internal id changed, e.g. after a duplicate-ID fix
+export const renameRows = <T>(log: Record<EntityCollection, Record<string, T>>, collection: EntityCollection, renames: [string, string][]) => {
+  const entries = { ...log[collection] };
+  renames.forEach(([from, to]) => {
+    if (from === to || !(from in entries)) return;
+    entries[to] = entries[from];
+    delete entries[from];
+  });
+  return { ...log, [collection]: entries };
+};
+
+// "clients.xlsx [Sheet1]", matching how upload warnings name a sheet
+export const sourceName = (provenance: RowProvenance) =>
+  provenance.sheet ? `${provenance.file} [${provenance.sheet}]` : provenance.file;
+
+export const describeSource = (provenance: RowProvenance) => `${sourceName(provenance)} row ${provenance.row}`;
+
+export const isEdited = (edits: EditLog, collection: EntityCollection, rowId: string, field: string) =>
+  (edits[collection][rowId] || []).includes(field);
@@ -0,0 +1,42 @@
+import { DataEntity, DataSet, EntityCollection, ValidationError } from '@/types/data';
+import { createFinding } from '@/lib/validation';
+import { closestMatch } from '@/lib/stringSimilarity';
+
+// Fields that hold TaskIDs and must resolve against the loaded tasks
+const TASK_REFERENCE_FIELDS: { collection: EntityCollection; field: string }[] = [
+  { collection: 'clients', field: 'RequestedTaskIDs' },
+  { collection: 'tasks', field: 'Dependencies' }
+];
+
+const referencesOf = (row: DataEntity, field: string): string[] => {
+  const value = row[field];
+  if (!Array.isArray(value)) return [];
+  return value.map(item => String(item).trim()).filter(Boolean);
+};
+
+// Flags every RequestedTaskIDs / Dependencies entry that names a TaskID not
+// present in the task set, suggesting the closest existing TaskID when one is near.
+export const validateReferences = (data: DataSet): ValidationError[] => {
+  const taskIds = data.tasks.map(task => String(task.TaskID ?? '').trim()).filter(Boolean);
+  const knownTaskIds = new Set(taskIds);
+  const errors: ValidationError[] = [];
+
+  TASK_REFERENCE_FIELDS.forEach(({ collection, field }) => {
+    data[collection].forEach((row, rowIndex) => {
+      referencesOf(row, field)
+        .filter(reference => !knownTaskIds.has(reference))
+        .forEach(reference => {
+          const match = closestMatch(reference, taskIds);
+          const finding = createFinding(
+            'unknown-task-reference', collection, row, rowIndex, field, 'error',
+            `${field} references TaskID "${reference}", which does not exist`,
+            match ? `Replace "${reference}" with closest matching TaskID "${match}"` : `Remove reference "${reference}"`,
+            match ? { type: 'replaceReference', from: reference, to: match } : { type: 'removeArrayElement', value: reference }
+          );
+          errors.push({ ...finding, id: `${finding.id}-${reference}` });
+        });
+    });
+  });
+
+  return errors;
+};
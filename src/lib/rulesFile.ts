@@ -0,0 +1,274 @@
+import { BusinessRule, DataSet, EntityCollection, PrioritizationWeights, Suppression } from '@/types/data';
+import { COLLECTIONS } from '@/lib/schema';
+import { datasetFingerprint } from '@/lib/hashing';
+
+// rules.json: the rules, prioritization weights and suppressions of a session,
+// portable between environments. Older files are migrated forward on import.
+//  0: a bare array of rules
+//  1: { rules, suppressions }, as the Export tab first wrote it
+//  2: adds schemaVersion, createdAt, dataset and weights
+export const RULES_SCHEMA_VERSION = 2;
+
+export interface DatasetInfo {
+  fingerprint: string; // See datasetFingerprint
+  rows: Record<EntityCollection, number>;
+}
+
+export interface RulesDocument {
+  schemaVersion: number;
+  createdAt: string;
+  dataset: DatasetInfo | null; // Null when no data was loaded
+  rules: BusinessRule[];
+  weights: PrioritizationWeights;
+  suppressions: Suppression[];
+}
+
+export interface RejectedRule {
+  index: number; // Position in the file's rule list
+  name: string;
+  reason: string;
+}
+
+// What an imported file contributes, with everything that did not pass checks
+export interface RulesImport {
+  schemaVersion: number; // Version the file was written in
+  createdAt: string | null;
+  dataset: DatasetInfo | null;
+  rules: BusinessRule[];
+  weights?: PrioritizationWeights; // Absent when the file has none or they are invalid
+  suppressions: Suppression[];
+  rejected: RejectedRule[];
+  warnings: string[];
+}
+
+export const DEFAULT_WEIGHTS: PrioritizationWeights = {
+  priorityLevel: 0.3,
+  fulfillment: 0.25,
+  fairness: 0.2,
+  workload: 0.15,
+  efficiency: 0.1
+};
+
+const STORAGE_KEY = 'digitly.rules';
+
+type RawDocument = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText);
+
+const isPositiveInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// Reason a rule's parameters do not fit its type, or null when they do
+const PARAMETER_CHECKS: Record<BusinessRule['type'], (parameters: RawDocument) => string | null> = {
+  coRun: ({ taskIds }) =>
+    isTextList(taskIds) && taskIds.length >= 2 ? null : 'taskIds must list at least two task IDs',
+  slotRestriction: ({ groupType, groupName, minCommonSlots }) => {
+    if (groupType !== 'client' && groupType !== 'worker') return 'groupType must be "client" or "worker"';
+    if (!isText(groupName)) return 'groupName is required';
+    return isPositiveInteger(minCommonSlots) ? null : 'minCommonSlots must be a positive whole number';
+  },
+  loadLimit: ({ workerGroup, maxSlotsPerPhase }) => {
+    if (!isText(workerGroup)) return 'workerGroup is required';
+    return isPositiveInteger(maxSlotsPerPhase) ? null : 'maxSlotsPerPhase must be a positive whole number';
+  },
+  phaseWindow: ({ taskId, allowedPhases }) => {
+    if (!isText(taskId)) return 'taskId is required';
+    return Array.isArray(allowedPhases) && allowedPhases.length > 0 && allowedPhases.every(isPositiveInteger)
+      ? null
+      : 'allowedPhases must list phase numbers';
+  },
+  patternMatch: ({ regex, ruleTemplate, parameters }) => {
+    if (!isText(regex)) return 'regex is required';
+    try {
+      new RegExp(regex);
+    } catch {
+      return `regex "${regex}" is not a valid regular expression`;
+    }
+    if (!isText(ruleTemplate)) return 'ruleTemplate is required';
+    return parameters === undefined || isRecord(parameters) ? null : 'parameters must be an object';
+  },
+  precedenceOverride: ({ globalRules, specificRules, priorityOrder }) => {
+    if (!Array.isArray(globalRules) || !globalRules.every(isText)) return 'globalRules must list rule IDs';
+    if (!isRecord(specificRules) || !Object.values(specificRules).every(isTextList)) {
+      return 'specificRules must map each key to a list of rule IDs';
+    }
+    return isTextList(priorityOrder) ? null : 'priorityOrder must list rule IDs';
+  }
+};
+
+const RULE_TYPES = Object.keys(PARAMETER_CHECKS) as BusinessRule['type'][];
+
+// Each step lifts a document one version
+const MIGRATIONS: Record<number, (document: RawDocument) => RawDocument> = {
+  0: document => ({ schemaVersion: 1, rules: document.rules, suppressions: [] }),
+  1: document => ({ ...document, schemaVersion: 2, createdAt: null, dataset: null })
+};
+
+const versionOf = (document: RawDocument) => {
+  if (document.schemaVersion === undefined) return 1;
+  const version = document.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error('schemaVersion must be a whole number of 0 or more');
+  }
+  return version;
+};
+
+// Reason a rule cannot be applied as it stands, or null. The rule form and
+// imports use the same checks.
+export const ruleProblem = (rule: Pick<BusinessRule, 'type' | 'name' | 'parameters'>): string | null => {
+  if (!isText(rule.name)) return 'name is required';
+  return PARAMETER_CHECKS[rule.type](rule.parameters);
+};
+
+// Incomplete rules, with a missing name or unusable parameters, are rejected
+// unless keepIncomplete is set; anything that is not a rule at all always is
+const checkRule = (
+  raw: unknown,
+  index: number,
+  seenIds: Set<string>,
+  keepIncomplete: boolean
+): { rule: BusinessRule } | { reason: string } => {
+  if (!isRecord(raw)) return { reason: 'not an object' };
+  const { type, name, parameters } = raw;
+  if (!RULE_TYPES.includes(type as BusinessRule['type'])) return { reason: `unknown rule type "${String(type)}"` };
+  if (!isRecord(parameters)) return { reason: 'parameters must be an object' };
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') return { reason: 'enabled must be true or false' };
+  if (raw.priority !== undefined && !(typeof raw.priority === 'number' && Number.isFinite(raw.priority))) {
+    return { reason: 'priority must be a number' };
+  }
+
+  const problem = ruleProblem({ type: type as BusinessRule['type'], name: String(name ?? ''), parameters });
+  if (problem && !keepIncomplete) return { reason: problem };
+
+  const id = isText(raw.id) ? raw.id : `rule-import-${index + 1}`;
+  if (seenIds.has(id)) return { reason: `duplicate id "${id}"` };
+  seenIds.add(id);
+
+  return {
+    rule: {
+      id,
+      type: type as BusinessRule['type'],
+      name: typeof name === 'string' ? name : '',
+      description: typeof raw.description === 'string' ? raw.description : '',
+      enabled: raw.enabled ?? true,
+      priority: (raw.priority as number | undefined) ?? 1,
+      parameters,
+      ...(typeof raw.naturalLanguage === 'string' && { naturalLanguage: raw.naturalLanguage })
+    }
+  };
+};
+
+const checkWeights = (raw: unknown): PrioritizationWeights | null => {
+  if (!isRecord(raw)) return null;
+  const keys = Object.keys(DEFAULT_WEIGHTS) as (keyof PrioritizationWeights)[];
+  const valid = keys.every(key => typeof raw[key] === 'number' && (raw[key] as number) >= 0 && (raw[key] as number) <= 1);
+  return valid ? Object.fromEntries(keys.map(key => [key, raw[key]])) as unknown as PrioritizationWeights : null;
+};
+
+const isSuppression = (raw: unknown): raw is Suppression =>
+  isRecord(raw) &&
+  isText(raw.code) &&
+  ['client', 'worker', 'task'].includes(raw.entityType as string) &&
+  isText(raw.entityId) &&
+  isText(raw.field);
+
+// Reads a rules.json of any known version. Throws when the file cannot be used
+// at all; individual rules that fail checks are returned as rejected, or kept
+// as they are with keepIncomplete, for the user to finish in the rule form.
+export const parseRulesDocument = (text: string, keepIncomplete = false): RulesImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!Array.isArray(parsed) && !isRecord(parsed)) throw new Error('The file does not contain rules');
+
+  let document: RawDocument = Array.isArray(parsed) ? { schemaVersion: 0, rules: parsed } : parsed;
+  const schemaVersion = versionOf(document);
+  if (schemaVersion > RULES_SCHEMA_VERSION) {
+    throw new Error(`The file uses rules format version ${schemaVersion}; this app reads up to version ${RULES_SCHEMA_VERSION}`);
+  }
+  for (let version = schemaVersion; version < RULES_SCHEMA_VERSION; version++) {
+    document = MIGRATIONS[version](document);
+  }
+
+  if (!Array.isArray(document.rules)) throw new Error('"rules" must be a list');
+  const warnings: string[] = [];
+  const rules: BusinessRule[] = [];
+  const rejected: RejectedRule[] = [];
+  const seenIds = new Set<string>();
+  document.rules.forEach((raw, index) => {
+    const result = checkRule(raw, index, seenIds, keepIncomplete);
+    if ('rule' in result) rules.push(result.rule);
+    else rejected.push({ index, name: isRecord(raw) && isText(raw.name) ? raw.name : `Rule ${index + 1}`, reason: result.reason });
+  });
+
+  const weights = document.weights === undefined ? null : checkWeights(document.weights);
+  if (document.weights !== undefined && !weights) {
+    warnings.push('Prioritization weights were ignored; each must be a number from 0 to 1');
+  }
+
+  const rawSuppressions = Array.isArray(document.suppressions) ? document.suppressions : [];
+  const suppressions = rawSuppressions.filter(isSuppression);
+  const ignored = rawSuppressions.length - suppressions.length;
+  if (ignored > 0) warnings.push(`Ignored ${ignored} incomplete ${ignored === 1 ? 'suppression' : 'suppressions'}`);
+
+  const dataset = isRecord(document.dataset) && isText(document.dataset.fingerprint)
+    ? document.dataset as unknown as DatasetInfo
+    : null;
+
+  return {
+    schemaVersion,
+    createdAt: typeof document.createdAt === 'string' ? document.createdAt : null,
+    dataset,
+    rules,
+    ...(weights && { weights }),
+    suppressions,
+    rejected,
+    warnings
+  };
+};
+
+// Without data the dataset is left out, so no fingerprinting is needed
+export const buildRulesDocument = async (
+  rules: BusinessRule[],
+  weights: PrioritizationWeights,
+  suppressions: Suppression[],
+  data?: DataSet
+): Promise<RulesDocument> => ({
+  schemaVersion: RULES_SCHEMA_VERSION,
+  createdAt: new Date().toISOString(),
+  dataset: data && COLLECTIONS.some(collection => data[collection].length > 0)
+    ? {
+        fingerprint: await datasetFingerprint(data),
+        rows: { clients: data.clients.length, workers: data.workers.length, tasks: data.tasks.length }
+      }
+    : null,
+  rules,
+  weights,
+  suppressions
+});
+
+export const serializeRules = (document: RulesDocument) => JSON.stringify(document, null, 2);
+
+// Rules are kept in localStorage between visits, in the same format as the
+// file. Incomplete ones are kept too; the rule list flags them.
+export const loadStoredRules = (): RulesImport | null => {
+  if (typeof window === 'undefined') return null;
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return parseRulesDocument(stored, true);
+  } catch {
+    return null;
+  }
+};
+
+export const saveStoredRules = (document: RulesDocument) => {
+  window.localStorage.setItem(STORAGE_KEY, serializeRules(document));
+};
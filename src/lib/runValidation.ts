@@ -0,0 +1,16 @@
+import { DataSet, ValidationError } from '@/types/data';
+import { validateDataSet } from '@/lib/validation';
+import { validateReferences } from '@/lib/references';
+import { validateDependencyCycles } from '@/lib/dependencyGraph';
+import { validateSkillCoverage } from '@/lib/skillCoverage';
+import { validateCapacity } from '@/lib/capacity';
+
+// Runs every data-level validator. Column checks are upload-only and are
+// merged in by the caller.
+export const runValidation = (data: DataSet): ValidationError[] => [
+  ...validateDataSet(data),
+  ...validateReferences(data),
+  ...validateDependencyCycles(data),
+  ...validateSkillCoverage(data),
+  ...validateCapacity(data)
+];
@@ -0,0 +1,121 @@
+import { EntityCollection, ValidationError } from '@/types/data';
+
+// Single source of truth for the shape of clients, workers and tasks. Header
+// mapping, processing, grid columns, validation and the AI prompt all derive
+// from these definitions, so a new field only needs to be added here.
+
+export interface FieldSchema {
+  name: string; // Property name on the processed entity
+  label: string; // Human-readable label for grid headers
+  type: 'text' | 'number' | 'list' | 'json';
+  itemType?: 'text' | 'integer'; // Element type for lists, defaults to text
+  separator?: string; // List separator in uploaded files, defaults to ','
+  integer?: boolean; // Whole numbers only
+  min?: number;
+  max?: number;
+  defaultValue?: number; // Used when a number cell is empty or unparseable
+  required: boolean; // Column must be present in the uploaded file
+  aliases: string[]; // Alternative header names seen in uploads
+  description: string; // One-line meaning, used in the AI prompt
+}
+
+export interface EntitySchema {
+  collection: EntityCollection;
+  entityType: ValidationError['entityType'];
+  label: string;
+  idField: string;
+  nameField: string;
+  fields: FieldSchema[];
+}
+
+export const ENTITY_SCHEMAS: Record<EntityCollection, EntitySchema> = {
+  clients: {
+    collection: 'clients',
+    entityType: 'client',
+    label: 'Clients',
+    idField: 'ClientID',
+    nameField: 'ClientName',
+    fields: [
+      { name: 'ClientID', label: 'Client ID', type: 'text', required: true, aliases: ['Client ID', 'Client Id'], description: 'unique client identifier, e.g. C1' },
+      { name: 'ClientName', label: 'Client Name', type: 'text', required: true, aliases: ['Client Name', 'Name'], description: 'display name' },
+      { name: 'ClientGroup', label: 'Client Group', type: 'text', required: true, aliases: ['Client Group', 'Group'], description: 'grouping tag' },
+      { name: 'PriorityLevel', label: 'Priority Level', type: 'number', integer: true, min: 1, max: 5, defaultValue: 1, required: true, aliases: ['Priority Level', 'Priority'], description: 'integer 1-5, 5 is most important' },
+      { name: 'RequestedTaskIDs', label: 'Requested Tasks', type: 'list', separator: ',', required: true, aliases: ['Requested Task IDs', 'Requested Tasks'], description: 'list of TaskIDs the client wants done' },
+      { name: 'PreferredPhases', label: 'Preferred Phases', type: 'list', itemType: 'integer', separator: ',', required: true, aliases: ['Preferred Phases'], description: 'list of phase numbers' },
+      { name: 'MaxBudget', label: 'Max Budget', type: 'number', min: 0, defaultValue: 0, required: true, aliases: ['Max Budget', 'Budget'], description: 'maximum spend' },
+      { name: 'AttributesJSON', label: 'Attributes', type: 'json', required: true, aliases: ['Attributes JSON', 'Attributes'], description: 'free-form JSON metadata' }
+    ]
+  },
+  workers: {
+    collection: 'workers',
+    entityType: 'worker',
+    label: 'Workers',
+    idField: 'WorkerID',
+    nameField: 'WorkerName',
+    fields: [
+      { name: 'WorkerID', label: 'Worker ID', type: 'text', required: true, aliases: ['Worker ID', 'Worker Id'], description: 'unique worker identifier, e.g. W1' },
+      { name: 'WorkerName', label: 'Worker Name', type: 'text', required: true, aliases: ['Worker Name', 'Name'], description: 'display name' },
+      { name: 'WorkerGroup', label: 'Worker Group', type: 'text', required: true, aliases: ['Worker Group', 'Group'], description: 'grouping tag' },
+      { name: 'Skills', label: 'Skills', type: 'list', separator: ',', required: true, aliases: ['Skills'], description: 'list of skill tags' },
+      { name: 'AvailableSlots', label: 'Available Slots', type: 'list', itemType: 'integer', separator: ',', required: true, aliases: ['Available Slots', 'Slots'], description: 'list of phase numbers the worker is available in' },
+      { name: 'MaxLoadPerPhase', label: 'Max Load/Phase', type: 'number', integer: true, min: 1, defaultValue: 1, required: true, aliases: ['Max Load Per Phase', 'Max Load'], description: 'maximum tasks per phase' },
+      { name: 'HourlyRate', label: 'Hourly Rate', type: 'number', min: 0, defaultValue: 0, required: true, aliases: ['Hourly Rate', 'Rate'], description: 'cost per hour' },
+      { name: 'AttributesJSON', label: 'Attributes', type: 'json', required: true, aliases: ['Attributes JSON', 'Attributes'], description: 'free-form JSON metadata' }
+    ]
+  },
+  tasks: {
+    collection: 'tasks',
+    entityType: 'task',
+    label: 'Tasks',
+    idField: 'TaskID',
+    nameField: 'TaskName',
+    fields: [
+      { name: 'TaskID', label: 'Task ID', type: 'text', required: true, aliases: ['Task ID', 'Task Id'], description: 'unique task identifier, e.g. T1' },
+      { name: 'TaskName', label: 'Task Name', type: 'text', required: true, aliases: ['Task Name', 'Name'], description: 'display name' },
+      { name: 'Duration', label: 'Duration', type: 'number', integer: true, min: 1, defaultValue: 1, required: true, aliases: ['Duration'], description: 'number of phases the task takes' },
+      { name: 'RequiredSkills', label: 'Required Skills', type: 'list', separator: ',', required: true, aliases: ['Required Skills'], description: 'list of skill tags a worker needs' },
+      { name: 'PreferredPhases', label: 'Preferred Phases', type: 'list', itemType: 'integer', separator: ',', required: true, aliases: ['Preferred Phases'], description: 'list of phase numbers' },
+      { name: 'PriorityLevel', label: 'Priority Level', type: 'number', integer: true, min: 1, max: 5, defaultValue: 1, required: true, aliases: ['Priority Level', 'Priority'], description: 'integer 1-5' },
+      { name: 'Dependencies', label: 'Dependencies', type: 'list', separator: ',', required: true, aliases: ['Dependencies', 'Depends On'], description: 'list of TaskIDs that must finish first' },
+      { name: 'MaxConcurrent', label: 'Max Concurrent', type: 'number', integer: true, min: 1, defaultValue: 1, required: true, aliases: ['Max Concurrent'], description: 'maximum parallel assignments' },
+      { name: 'AttributesJSON', label: 'Attributes', type: 'json', required: true, aliases: ['Attributes JSON', 'Attributes'], description: 'free-form JSON metadata' }
+    ]
+  }
+};
+
+export const COLLECTIONS: EntityCollection[] = ['clients', 'workers', 'tasks'];
+
+export const ENTITY_TYPES: Record<EntityCollection, ValidationError['entityType']> = {
+  clients: 'client',
+  workers: 'worker',
+  tasks: 'task'
+};
+
+export const ENTITY_COLLECTIONS: Record<ValidationError['entityType'], EntityCollection> = {
+  client: 'clients',
+  worker: 'workers',
+  task: 'tasks'
+};
+
+export const ID_FIELDS: Record<EntityCollection, string> = {
+  clients: ENTITY_SCHEMAS.clients.idField,
+  workers: ENTITY_SCHEMAS.workers.idField,
+  tasks: ENTITY_SCHEMAS.tasks.idField
+};
+
+export const fieldNames = (collection: EntityCollection) =>
+  ENTITY_SCHEMAS[collection].fields.map(field => field.name);
+
+export const getFieldSchema = (collection: EntityCollection, name: string) =>
+  ENTITY_SCHEMAS[collection].fields.find(field => field.name === name);
+
+export const isNumericListField = (collection: EntityCollection, name: string) => {
+  const field = getFieldSchema(collection, name);
+  return field?.type === 'list' && field.itemType === 'integer';
+};
+
+// Text used to describe the data model to the LLM
+export const describeSchemas = () =>
+  Object.values(ENTITY_SCHEMAS)
+    .map(schema => `- ${schema.label}: ${schema.fields.map(field => field.name).join(', ')}`)
+    .join('\n');
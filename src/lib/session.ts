@@ -0,0 +1,131 @@
+import { BusinessRule, DataEntity, DataSet, EntityCollection, PrioritizationWeights, ValidationError } from '@/types/data';
+import { COLLECTIONS, fieldNames } from '@/lib/schema';
+import { HeaderMapping } from '@/lib/headerMapping';
+import { MappingProfile } from '@/lib/mappingProfiles';
+import { ProvenanceLog, RowProvenance } from '@/lib/provenance';
+import { EditLog, RowChange, emptyEditLog, mergeRows } from '@/lib/merge';
+import { RulesImport } from '@/lib/rulesFile';
+import { BundleManifest } from '@/lib/bundle';
+
+// Restoring a session from a bundle: the state page.tsx holds, rebuilt from
+// the bundle's files, and what it changes compared to the current session.
+
+export interface RestoredSession {
+  bundleName: string;
+  manifest: BundleManifest;
+  data: DataSet;
+  columnErrors: ValidationError[];
+  fileNames: Record<EntityCollection, string>;
+  provenance: ProvenanceLog;
+  edits: EditLog;
+  history: SessionHistory;
+  rules: RulesImport | null; // Null when the bundle has no rules.json
+  profiles: MappingProfile[]; // Header mappings of the upload the bundle was made from
+}
+
+// How much of each collection's row sources and edits came back from the bundle
+export interface HistoryRestore {
+  restored: boolean; // False when the bundle did not carry them, so rows point at its own files
+  sources: number; // Rows whose original file and row are known
+  editedFields: number;
+}
+
+export type SessionHistory = Record<EntityCollection, HistoryRestore>;
+
+export interface CollectionDiff {
+  added: DataEntity[];
+  removed: DataEntity[];
+  changed: RowChange[];
+}
+
+export interface SessionDiff {
+  bundleName: string;
+  data: Record<EntityCollection, CollectionDiff>;
+  rules: { added: string[]; removed: string[]; changed: string[] }; // Rule names
+  weightsChanged: boolean;
+  history: SessionHistory;
+}
+
+export interface SessionState {
+  data: DataSet;
+  rules: BusinessRule[];
+  priorities: PrioritizationWeights;
+}
+
+// Exported files use the schema field names, so only those are mapped. Source
+// and original-value columns stay unmapped; the manifest carries that record.
+export const bundleMapping = (headers: string[], collection: EntityCollection): HeaderMapping => {
+  const fields = fieldNames(collection);
+  return Object.fromEntries(headers.map(header => [header, fields.includes(header) ? header : null]));
+};
+
+// Puts the row sources and edits recorded in the manifest back on the restored
+// rows, which follow the order of the bundle's data files. A collection whose
+// rows no longer line up with the record keeps the sources read from the
+// bundle itself, rather than attaching them to the wrong rows.
+export const restoreHistory = (
+  manifest: BundleManifest,
+  data: DataSet,
+  bundleProvenance: ProvenanceLog,
+  bundleFileNames: Record<EntityCollection, string>
+) => {
+  const session = manifest.session;
+  const provenance = { ...bundleProvenance };
+  const edits = emptyEditLog();
+  const fileNames = { ...bundleFileNames };
+
+  const history = Object.fromEntries(COLLECTIONS.map(collection => {
+    const rows = data[collection];
+    const sources = session?.provenance?.[collection];
+    const edited = session?.edits?.[collection];
+    if (!Array.isArray(sources) || !Array.isArray(edited) || sources.length !== rows.length || edited.length !== rows.length) {
+      return [collection, { restored: false, sources: 0, editedFields: 0 }];
+    }
+
+    provenance[collection] = Object.fromEntries(rows.flatMap((row, index) => {
+      const source: RowProvenance | null = sources[index];
+      return source ? [[row.id, source]] : [];
+    }));
+    edits[collection] = Object.fromEntries(rows.flatMap((row, index) =>
+      Array.isArray(edited[index]) && edited[index].length > 0 ? [[row.id, edited[index]]] : []
+    ));
+    const fileName = session?.fileNames?.[collection];
+    if (fileName) fileNames[collection] = fileName;
+    return [collection, {
+      restored: true,
+      sources: Object.keys(provenance[collection]).length,
+      editedFields: Object.values(edits[collection]).reduce((total, fields) => total + fields.length, 0)
+    }];
+  })) as SessionHistory;
+
+  return { provenance, edits, fileNames, history };
+};
+
+const diffRules = (before: BusinessRule[], after: BusinessRule[]) => {
+  const previous = new Map(before.map(rule => [rule.id, rule]));
+  const nextIds = new Set(after.map(rule => rule.id));
+  return {
+    added: after.filter(rule => !previous.has(rule.id)).map(rule => rule.name),
+    removed: before.filter(rule => !nextIds.has(rule.id)).map(rule => rule.name),
+    changed: after
+      .filter(rule => previous.has(rule.id) && JSON.stringify(previous.get(rule.id)) !== JSON.stringify(rule))
+      .map(rule => rule.name)
+  };
+};
+
+// Rows are matched on business ID, as a replacing merge would
+export const diffSessions = (
+  bundleName: string,
+  before: SessionState,
+  after: SessionState,
+  history: SessionHistory
+): SessionDiff => ({
+  bundleName,
+  data: Object.fromEntries(COLLECTIONS.map(collection => {
+    const { added, removed, changed } = mergeRows(before.data[collection], after.data[collection], collection, 'replace', {}, true);
+    return [collection, { added, removed, changed }];
+  })) as Record<EntityCollection, CollectionDiff>,
+  rules: diffRules(before.rules, after.rules),
+  weightsChanged: JSON.stringify(before.priorities) !== JSON.stringify(after.priorities),
+  history
+});
@@ -0,0 +1,83 @@
+import { DataEntity, DataSet, ValidationError } from '@/types/data';
+import { createFinding } from '@/lib/validation';
+
+export interface TaskCoverage {
+  taskId: string;
+  rowIndex: number;
+  requiredSkills: string[];
+  qualifiedWorkers: string[]; // Workers holding every required skill
+}
+
+export interface SkillCoverage {
+  skills: string[]; // Every skill required by at least one task
+  workersBySkill: Record<string, string[]>;
+  tasks: TaskCoverage[];
+}
+
+const normaliseSkill = (skill: unknown) => String(skill ?? '').trim().toLowerCase();
+
+const skillsOf = (entity: DataEntity, field: string): string[] => {
+  const value = entity[field];
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.map(normaliseSkill).filter(Boolean)));
+};
+
+// Skills are compared case-insensitively and reported in lower case
+export const analyzeSkillCoverage = (data: DataSet): SkillCoverage => {
+  const workerSkills = data.workers.map(worker => ({
+    workerId: String(worker.WorkerID ?? worker.id),
+    skills: new Set(skillsOf(worker, 'Skills'))
+  }));
+
+  const tasks: TaskCoverage[] = data.tasks.map((task, rowIndex) => {
+    const requiredSkills = skillsOf(task, 'RequiredSkills');
+    const qualifiedWorkers = requiredSkills.length === 0
+      ? []
+      : workerSkills
+          .filter(worker => requiredSkills.every(skill => worker.skills.has(skill)))
+          .map(worker => worker.workerId);
+    return { taskId: String(task.TaskID ?? task.id), rowIndex, requiredSkills, qualifiedWorkers };
+  });
+
+  const skills = Array.from(new Set(tasks.flatMap(task => task.requiredSkills))).sort();
+  const workersBySkill: Record<string, string[]> = {};
+  skills.forEach(skill => {
+    workersBySkill[skill] = workerSkills
+      .filter(worker => worker.skills.has(skill))
+      .map(worker => worker.workerId);
+  });
+
+  return { skills, workersBySkill, tasks };
+};
+
+// Zero qualified workers is an error; exactly one is a bus-factor warning
+export const validateSkillCoverage = (data: DataSet): ValidationError[] => {
+  const { tasks, workersBySkill } = analyzeSkillCoverage(data);
+  const errors: ValidationError[] = [];
+
+  tasks.forEach(({ taskId, rowIndex, requiredSkills, qualifiedWorkers }) => {
+    if (requiredSkills.length === 0) return;
+    const task = data.tasks[rowIndex];
+
+    if (qualifiedWorkers.length === 0) {
+      const missing = requiredSkills.filter(skill => workersBySkill[skill].length === 0);
+      errors.push(createFinding(
+        'no-qualified-worker', 'tasks', task, rowIndex, 'RequiredSkills', 'error',
+        missing.length > 0
+          ? `No worker has ${missing.map(skill => `"${skill}"`).join(', ')} required by ${taskId}`
+          : `No single worker has all of ${requiredSkills.join(', ')} required by ${taskId}`,
+        missing.length > 0
+          ? `Add ${missing.join(', ')} to a worker's Skills, or drop it from RequiredSkills`
+          : 'Give one worker the full skill set, or split the task'
+      ));
+    } else if (qualifiedWorkers.length === 1) {
+      errors.push(createFinding(
+        'single-qualified-worker', 'tasks', task, rowIndex, 'RequiredSkills', 'warning',
+        `Only ${qualifiedWorkers[0]} is qualified for ${taskId}`,
+        `Train a second worker in ${requiredSkills.join(', ')}`
+      ));
+    }
+  });
+
+  return errors;
+};
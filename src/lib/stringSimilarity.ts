@@ -0,0 +1,42 @@
+// Edit distance between two strings (insertions, deletions, substitutions)
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Similarity in [0, 1], where 1 means identical ignoring case
+export const similarity = (a: string, b: string): number => {
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(left, right) / longest;
+};
+
+// Returns the candidate most similar to value, or undefined if none reaches minSimilarity
+export const closestMatch = (value: string, candidates: string[], minSimilarity = 0.5): string | undefined => {
+  let best: string | undefined;
+  let bestScore = minSimilarity;
+
+  candidates.forEach(candidate => {
+    const score = similarity(value, candidate);
+    if (score > bestScore || (score === bestScore && best === undefined)) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
@@ -0,0 +1,34 @@
+import { DataSet, Suppression, ValidationError } from '@/types/data';
+import { ENTITY_COLLECTIONS } from '@/lib/schema';
+
+type SuppressionTarget = Pick<Suppression, 'code' | 'entityType' | 'entityId' | 'field'>;
+
+export const suppressionKey = ({ code, entityType, entityId, field }: SuppressionTarget) =>
+  `${code}|${entityType}|${entityId}|${field}`;
+
+export const createSuppression = (error: ValidationError, reason: string): Suppression => ({
+  code: error.code,
+  entityType: error.entityType,
+  entityId: error.entityId,
+  field: error.field,
+  reason,
+  createdAt: new Date().toISOString()
+});
+
+export const isSuppressed = (error: ValidationError, suppressions: Suppression[]) => {
+  const key = suppressionKey(error);
+  return suppressions.some(suppression => suppressionKey(suppression) === key);
+};
+
+export const findSuppression = (error: ValidationError, suppressions: Suppression[]) => {
+  const key = suppressionKey(error);
+  return suppressions.find(suppression => suppressionKey(suppression) === key);
+};
+
+// Suppressions pointing at an entity that is no longer loaded. Dataset-wide
+// findings ('*') are never stale.
+export const findStaleSuppressions = (suppressions: Suppression[], data: DataSet) =>
+  suppressions.filter(suppression => {
+    if (suppression.entityId === '*') return false;
+    return !data[ENTITY_COLLECTIONS[suppression.entityType]].some(entity => entity.id === suppression.entityId);
+  });
@@ -0,0 +1,245 @@
+import { DataEntity, DataSet, EntityCollection, ValidationError, ValidationFix } from '@/types/data';
+import { ENTITY_SCHEMAS, ENTITY_TYPES, FieldSchema, fieldNames } from '@/lib/schema';
+
+// Builds a finding for a single cell. The id is derived from the validator
+// code and the cell position so it stays stable across re-validation.
+export const createFinding = (
+  code: string,
+  collection: EntityCollection,
+  entity: DataEntity,
+  rowIndex: number,
+  field: string,
+  severity: ValidationError['severity'],
+  message: string,
+  suggestedFix?: string,
+  fix?: ValidationFix
+): ValidationError => {
+  // Schema field order is the grid column order
+  const columnIndex = fieldNames(collection).indexOf(field);
+  return {
+    id: `${code}-${collection}-${rowIndex}-${field}`,
+    code,
+    entityType: ENTITY_TYPES[collection],
+    entityId: entity.id,
+    field,
+    message,
+    severity,
+    suggestedFix,
+    fix,
+    rowIndex,
+    columnIndex: columnIndex >= 0 ? columnIndex : undefined
+  };
+};
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const isValidNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Checks the mapped (pre-processing) rows of one file for required columns.
+// Runs on upload only, since processData back-fills defaults for absent columns.
+export const validateColumns = (rows: Record<string, unknown>[], collection: EntityCollection): ValidationError[] => {
+  if (rows.length === 0) return [];
+
+  const present = new Set(rows.flatMap(row => Object.keys(row)));
+  const names = fieldNames(collection);
+  return ENTITY_SCHEMAS[collection].fields
+    .filter(field => field.required && !present.has(field.name))
+    .map(({ name }) => ({
+      id: `missing-column-${collection}-${name}`,
+      code: 'missing-column',
+      entityType: ENTITY_TYPES[collection],
+      entityId: '*',
+      field: name,
+      message: `Required column "${name}" is missing from the ${collection} file`,
+      severity: 'error' as const,
+      suggestedFix: `Add a "${name}" column to the ${collection} file and upload it again`,
+      columnIndex: names.indexOf(name)
+    }));
+};
+
+const validateRequiredValues = (rows: DataEntity[], collection: EntityCollection): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const required = [ENTITY_SCHEMAS[collection].idField, ENTITY_SCHEMAS[collection].nameField];
+
+  rows.forEach((row, rowIndex) => {
+    required.forEach(field => {
+      if (isBlank(row[field])) {
+        errors.push(createFinding(
+          'missing-value', collection, row, rowIndex, field, 'error',
+          `${field} is required but empty`,
+          `Enter a value for ${field}`
+        ));
+      }
+    });
+  });
+
+  return errors;
+};
+
+const validateDuplicateIds = (rows: DataEntity[], collection: EntityCollection): ValidationError[] => {
+  const idField = ENTITY_SCHEMAS[collection].idField;
+  const occurrences = new Map<string, number[]>();
+
+  rows.forEach((row, rowIndex) => {
+    const id = String(row[idField] ?? '').trim();
+    if (!id) return;
+    occurrences.set(id, [...(occurrences.get(id) || []), rowIndex]);
+  });
+
+  // Suggested IDs skip every ID in use, including ones suggested already, so
+  // applying all the fixes cannot create a new duplicate
+  const taken = new Set(occurrences.keys());
+  const unusedId = (id: string) => {
+    let suffix = 2;
+    while (taken.has(`${id}-${suffix}`)) suffix++;
+    taken.add(`${id}-${suffix}`);
+    return `${id}-${suffix}`;
+  };
+
+  const errors: ValidationError[] = [];
+  occurrences.forEach((rowIndexes, id) => {
+    if (rowIndexes.length < 2) return;
+    rowIndexes.forEach((rowIndex, occurrence) => {
+      const suggested = occurrence === 0 ? undefined : unusedId(id);
+      errors.push(createFinding(
+        'duplicate-id', collection, rows[rowIndex], rowIndex, idField, 'error',
+        `Duplicate ${idField} "${id}" appears in ${rowIndexes.length} rows`,
+        suggested ? `Rename to a unique ID such as "${suggested}"` : `Keep "${id}" here and rename the other rows`,
+        suggested ? { type: 'setField', value: suggested } : undefined
+      ));
+    });
+  });
+
+  return errors;
+};
+
+const describeRange = (field: FieldSchema) => {
+  const kind = field.integer ? 'a whole number' : 'a number';
+  if (field.min !== undefined && field.max !== undefined) return `${kind} from ${field.min} to ${field.max}`;
+  if (field.min !== undefined) return `${kind} of at least ${field.min}`;
+  if (field.max !== undefined) return `${kind} of at most ${field.max}`;
+  return kind;
+};
+
+const validateNumbers = (rows: DataEntity[], collection: EntityCollection): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const numberFields = ENTITY_SCHEMAS[collection].fields.filter(field => field.type === 'number');
+
+  rows.forEach((row, rowIndex) => {
+    numberFields.forEach(field => {
+      const value = row[field.name];
+      if (!isValidNumber(value)) {
+        errors.push(createFinding(
+          'non-numeric', collection, row, rowIndex, field.name, 'error',
+          `${field.name} must be a number, got "${value}"`,
+          `Enter ${describeRange(field)} for ${field.name}`
+        ));
+        return;
+      }
+
+      const outOfRange =
+        (field.integer && !Number.isInteger(value)) ||
+        (field.min !== undefined && value < field.min) ||
+        (field.max !== undefined && value > field.max);
+      if (outOfRange) {
+        let fixed = field.integer ? Math.round(value) : value;
+        if (field.min !== undefined) fixed = Math.max(field.min, fixed);
+        if (field.max !== undefined) fixed = Math.min(field.max, fixed);
+        errors.push(createFinding(
+          'out-of-range', collection, row, rowIndex, field.name, 'error',
+          `${field.name} must be ${describeRange(field)}, got ${value}`,
+          `Set ${field.name} to ${fixed}`,
+          { type: 'setField', value: fixed }
+        ));
+      }
+    });
+  });
+
+  return errors;
+};
+
+const validateLists = (rows: DataEntity[], collection: EntityCollection): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const listFields = ENTITY_SCHEMAS[collection].fields.filter(field => field.type === 'list');
+
+  rows.forEach((row, rowIndex) => {
+    listFields.forEach(({ name: field, itemType, separator }) => {
+      const value = row[field];
+      if (!Array.isArray(value)) {
+        errors.push(createFinding(
+          'malformed-list', collection, row, rowIndex, field, 'error',
+          `${field} should be a list separated by "${separator || ','}"`,
+          `Re-enter ${field} as "${separator || ','}"-separated values`,
+          { type: 'normalise', normaliser: 'toList' }
+        ));
+        return;
+      }
+
+      // A single empty entry is how a cleared grid cell comes out
+      if (value.length > 1 && value.some(item => isBlank(item))) {
+        errors.push(createFinding(
+          'empty-list-entry', collection, row, rowIndex, field, 'warning',
+          `${field} contains empty entries`,
+          'Remove the empty entries',
+          { type: 'normalise', normaliser: 'removeEmptyEntries' }
+        ));
+      }
+
+      if (itemType === 'integer') {
+        const invalid = value.filter(item => !isBlank(item) && !(isValidNumber(item) && Number.isInteger(item)));
+        if (invalid.length > 0) {
+          errors.push(createFinding(
+            'invalid-list-entry', collection, row, rowIndex, field, 'error',
+            `${field} must contain whole numbers only, found ${invalid.map(item => `"${item}"`).join(', ')}`,
+            `Remove ${invalid.map(item => `"${item}"`).join(', ')} from ${field}`,
+            { type: 'normalise', normaliser: 'removeNonIntegers' }
+          ));
+        }
+      }
+    });
+  });
+
+  return errors;
+};
+
+const validateJson = (rows: DataEntity[], collection: EntityCollection): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const jsonFields = ENTITY_SCHEMAS[collection].fields.filter(field => field.type === 'json');
+
+  rows.forEach((row, rowIndex) => {
+    jsonFields.forEach(({ name: field }) => {
+      const value = row[field];
+      if (typeof value !== 'string' || value.trim() === '') return;
+
+      try {
+        JSON.parse(value);
+      } catch {
+        errors.push(createFinding(
+          'invalid-json', collection, row, rowIndex, field, 'error',
+          `${field} is not valid JSON`,
+          `Wrap the value as JSON: {"note": ${JSON.stringify(value)}}`,
+          { type: 'normalise', normaliser: 'wrapJson' }
+        ));
+      }
+    });
+  });
+
+  return errors;
+};
+
+// Row-level checks for a single dataset
+export const validateEntities = (rows: DataEntity[], collection: EntityCollection): ValidationError[] => [
+  ...validateRequiredValues(rows, collection),
+  ...validateDuplicateIds(rows, collection),
+  ...validateNumbers(rows, collection),
+  ...validateLists(rows, collection),
+  ...validateJson(rows, collection)
+];
+
+export const validateDataSet = (data: DataSet): ValidationError[] => [
+  ...validateEntities(data.clients, 'clients'),
+  ...validateEntities(data.workers, 'workers'),
+  ...validateEntities(data.tasks, 'tasks')
+];
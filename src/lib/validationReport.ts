@@ -0,0 +1,157 @@
+import Papa from 'papaparse';
+import { DataSet, EntityCollection, ValidationError } from '@/types/data';
+import { ENTITY_COLLECTIONS, ID_FIELDS } from '@/lib/schema';
+import { ProvenanceLog, sourceName } from '@/lib/provenance';
+
+export type ReportFormat = 'csv' | 'json' | 'html';
+
+export interface ReportRow {
+  entityType: ValidationError['entityType'];
+  severity: ValidationError['severity'];
+  file: string;
+  row: number | null; // Spreadsheet row in the original file, header being row 1
+  recordId: string; // ClientID / WorkerID / TaskID as written in the file
+  field: string;
+  value: string;
+  message: string;
+  suggestedFix: string;
+}
+
+const SEVERITY_ORDER: ValidationError['severity'][] = ['error', 'warning', 'info'];
+const ENTITY_ORDER: ValidationError['entityType'][] = ['client', 'worker', 'task'];
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const buildReportRows = (
+  errors: ValidationError[],
+  data: DataSet,
+  fileNames: Partial<Record<EntityCollection, string>>,
+  provenance?: ProvenanceLog
+): ReportRow[] => {
+  const rows = errors.map(error => {
+    const collection = ENTITY_COLLECTIONS[error.entityType];
+    const entity = error.rowIndex !== undefined ? data[collection][error.rowIndex] : undefined;
+    // Rows keep pointing at the file they came from, even after merges and sorting
+    const source = entity ? provenance?.[collection][entity.id] : undefined;
+    return {
+      entityType: error.entityType,
+      severity: error.severity,
+      file: source ? sourceName(source) : fileNames[collection] || collection,
+      row: source ? source.row : error.rowIndex !== undefined ? error.rowIndex + 2 : null,
+      recordId: entity ? formatValue(entity[ID_FIELDS[collection]]) : '',
+      field: error.field,
+      value: entity ? formatValue(entity[error.field]) : '',
+      message: error.message,
+      suggestedFix: error.suggestedFix || ''
+    };
+  });
+
+  return rows.sort((a, b) =>
+    ENTITY_ORDER.indexOf(a.entityType) - ENTITY_ORDER.indexOf(b.entityType) ||
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+    (a.row ?? 0) - (b.row ?? 0)
+  );
+};
+
+// A group spans every file its rows came from, e.g. after a merge
+const groupRows = (rows: ReportRow[]) =>
+  ENTITY_ORDER
+    .map(entityType => ({
+      entityType,
+      file: Array.from(new Set(rows.filter(row => row.entityType === entityType).map(row => row.file))).join(', '),
+      severities: SEVERITY_ORDER
+        .map(severity => ({
+          severity,
+          rows: rows.filter(row => row.entityType === entityType && row.severity === severity)
+        }))
+        .filter(group => group.rows.length > 0)
+    }))
+    .filter(group => group.severities.length > 0);
+
+// Flat, spreadsheet-style columns, shared by the CSV report and workbook exports
+export const toReportTable = (rows: ReportRow[]) =>
+  rows.map(row => ({
+    'Entity Type': row.entityType,
+    Severity: row.severity,
+    File: row.file,
+    Row: row.row ?? '',
+    'Record ID': row.recordId,
+    Field: row.field,
+    Value: row.value,
+    Message: row.message,
+    'Suggested Fix': row.suggestedFix
+  }));
+
+const toCsv = (rows: ReportRow[]) => Papa.unparse(toReportTable(rows));
+
+const toJson = (rows: ReportRow[], generatedAt: string) =>
+  JSON.stringify({
+    generatedAt,
+    summary: Object.fromEntries(SEVERITY_ORDER.map(severity => [severity, rows.filter(row => row.severity === severity).length])),
+    groups: groupRows(rows).map(group => ({
+      entityType: group.entityType,
+      file: group.file,
+      severities: Object.fromEntries(group.severities.map(({ severity, rows: groupRows }) => [
+        severity,
+        groupRows.map(({ file, row, recordId, field, value, message, suggestedFix }) => ({
+          file, row, recordId, field, value, message, suggestedFix
+        }))
+      ]))
+    }))
+  }, null, 2);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toHtml = (rows: ReportRow[], generatedAt: string) => {
+  const sections = groupRows(rows).map(group => `
+  <h2>${escapeHtml(group.entityType)}s &middot; ${escapeHtml(group.file)}</h2>${group.severities.map(({ severity, rows: groupRows }) => `
+  <h3 class="${severity}">${severity} (${groupRows.length})</h3>
+  <table>
+    <thead><tr><th>File</th><th>Row</th><th>Record ID</th><th>Field</th><th>Value</th><th>Message</th><th>Suggested Fix</th></tr></thead>
+    <tbody>${groupRows.map(row => `
+      <tr><td>${escapeHtml(row.file)}</td><td>${row.row ?? ''}</td><td>${escapeHtml(row.recordId)}</td><td>${escapeHtml(row.field)}</td><td>${escapeHtml(row.value)}</td><td>${escapeHtml(row.message)}</td><td>${escapeHtml(row.suggestedFix)}</td></tr>`).join('')}
+    </tbody>
+  </table>`).join('')}`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Validation Report</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111827; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; font-size: 0.875rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.375rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  h2 { text-transform: capitalize; margin-top: 2rem; }
+  h3 { text-transform: capitalize; }
+  .error { color: #b91c1c; }
+  .warning { color: #a16207; }
+  .info { color: #1d4ed8; }
+</style>
+</head>
+<body>
+  <h1>Validation Report</h1>
+  <p>Generated ${escapeHtml(generatedAt)} &middot; ${rows.length} issues</p>${sections}
+</body>
+</html>
+`;
+};
+
+export const buildValidationReport = (rows: ReportRow[], format: ReportFormat) => {
+  const generatedAt = new Date().toISOString();
+  switch (format) {
+    case 'csv':
+      return { fileName: 'validation-report.csv', content: toCsv(rows), type: 'text/csv' };
+    case 'json':
+      return { fileName: 'validation-report.json', content: toJson(rows, generatedAt), type: 'application/json' };
+    case 'html':
+      return { fileName: 'validation-report.html', content: toHtml(rows, generatedAt), type: 'text/html' };
+  }
+};
@@ -0,0 +1,124 @@
+import * as XLSX from 'xlsx';
+
+// ZIP archives through the CFB container library that xlsx ships with. It is
+// untyped, so only the part used here is declared.
+interface CfbEntry {
+  name: string;
+  type: number; // 2 for a file
+  content: ArrayLike<number> | null;
+}
+
+interface CfbContainer {
+  FileIndex: CfbEntry[];
+  FullPaths: string[]; // Parallel to FileIndex, the first one is the root
+}
+
+interface CfbLibrary {
+  utils: {
+    cfb_new: () => CfbContainer;
+    cfb_add: (container: CfbContainer, path: string, content: Uint8Array) => void;
+  };
+  write: (container: CfbContainer, options: { fileType: 'zip'; type: 'array'; compression: boolean }) => ArrayLike<number>;
+  read: (data: Uint8Array, options: { type: 'array' }) => CfbContainer;
+}
+
+const CFB: CfbLibrary = XLSX.CFB;
+
+// Entry contents by path within the archive
+export type ZipEntries = Record<string, Uint8Array>;
+
+// CFB keeps a placeholder entry in every new container; it is not a real file
+const isPlaceholder = (name: string) => name.startsWith('\u0001');
+
+// The end of central directory record, which CFB writes last and without a comment
+const END_RECORD_LENGTH = 22;
+
+// CFB leaves zero-length files out when it writes an archive, so they are
+// added to its output as stored entries with no data (CRC and sizes all 0)
+const appendEmptyEntries = (archive: Uint8Array, paths: string[]): Uint8Array => {
+  if (paths.length === 0) return archive;
+  const end = archive.length - END_RECORD_LENGTH;
+  const endRecord = new DataView(archive.buffer, archive.byteOffset + end, END_RECORD_LENGTH);
+  const count = endRecord.getUint16(10, true);
+  const directorySize = endRecord.getUint32(12, true);
+  const directoryStart = endRecord.getUint32(16, true);
+
+  const locals: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = directoryStart;
+  paths.forEach(path => {
+    const name = new TextEncoder().encode(path);
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // Version needed
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(6, 20, true); // Version needed
+    entryView.setUint16(28, name.length, true);
+    entryView.setUint32(42, offset, true); // Where its local header starts
+    entry.set(name, 46);
+
+    locals.push(local);
+    directory.push(entry);
+    offset += local.length;
+  });
+
+  const added = offset - directoryStart;
+  const addedDirectory = directory.reduce((sum, entry) => sum + entry.length, 0);
+  const updatedEnd = archive.slice(end);
+  const updatedView = new DataView(updatedEnd.buffer);
+  updatedView.setUint16(8, count + paths.length, true); // Entries on this disk
+  updatedView.setUint16(10, count + paths.length, true);
+  updatedView.setUint32(12, directorySize + addedDirectory, true);
+  updatedView.setUint32(16, directoryStart + added, true);
+
+  const parts = [
+    archive.subarray(0, directoryStart),
+    ...locals,
+    archive.subarray(directoryStart, directoryStart + directorySize),
+    ...directory,
+    updatedEnd
+  ];
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    result.set(part, position);
+    position += part.length;
+  });
+  return result;
+};
+
+export const writeZip = (entries: ZipEntries): Uint8Array => {
+  const container = CFB.utils.cfb_new();
+  const empty: string[] = [];
+  Object.entries(entries).forEach(([path, content]) => {
+    if (content.length === 0) empty.push(path);
+    else CFB.utils.cfb_add(container, path, content);
+  });
+  const archive = Uint8Array.from(CFB.write(container, { fileType: 'zip', type: 'array', compression: true }));
+  return appendEmptyEntries(archive, empty);
+};
+
+// Files only, folders are left out. Throws when the data is not a ZIP archive.
+export const readZip = (data: ArrayBuffer): ZipEntries => {
+  let container: CfbContainer;
+  try {
+    container = CFB.read(new Uint8Array(data), { type: 'array' });
+  } catch {
+    throw new Error('The file is not a valid ZIP archive');
+  }
+
+  const root = container.FullPaths[0];
+  const entries: ZipEntries = {};
+  container.FileIndex.forEach((entry, index) => {
+    const path = container.FullPaths[index].slice(root.length);
+    if (entry.type !== 2 || path.endsWith('/') || isPlaceholder(entry.name)) return;
+    entries[path] = Uint8Array.from(entry.content || []);
+  });
+  return entries;
+};
@@ -38,19 +38,46 @@ export interface Task extends DataEntity {
   AttributesJSON: string;
 }
 
+export type EntityCollection = 'clients' | 'workers' | 'tasks';
+
+export interface DataSet {
+  clients: DataEntity[];
+  workers: DataEntity[];
+  tasks: DataEntity[];
+}
+
 // Validation Error Types
 export interface ValidationError {
   id: string;
+  code: string; // Validator that produced the finding, e.g. 'duplicate-id'
   entityType: 'client' | 'worker' | 'task';
   entityId: string;
   field: string;
   message: string;
   severity: 'error' | 'warning' | 'info';
   suggestedFix?: string;
+  fix?: ValidationFix; // Machine-applicable form of suggestedFix
   rowIndex?: number;
   columnIndex?: number;
 }
 
+export type ValidationFix =
+  | { type: 'setField'; value: string | number }
+  | { type: 'removeArrayElement'; value: string | number }
+  | { type: 'replaceReference'; from: string; to: string }
+  | { type: 'normalise'; normaliser: 'toList' | 'removeEmptyEntries' | 'removeNonIntegers' | 'wrapJson' };
+
+// A dismissed finding. Matches by validator code + entity + field so it
+// survives re-validation and re-upload.
+export interface Suppression {
+  code: string;
+  entityType: ValidationError['entityType'];
+  entityId: string;
+  field: string;
+  reason: string;
+  createdAt: string;
+}
+
 // Business Rule Types
 export interface BusinessRule {
   id: string;
@@ -132,11 +159,7 @@ export interface PrioritizationProfile {
 // File Upload Types
 export interface FileUploadResult {
   success: boolean;
-  data?: {
-    clients: Client[];
-    workers: Worker[];
-    tasks: Task[];
-  };
+  data?: DataSet;
   errors?: string[];
   warnings?: string[];
 }
@@ -159,6 +182,7 @@ export interface ExportConfig {
   includeValidation: boolean;
   includeRules: boolean;
   includePriorities: boolean;
+  includeProvenance: boolean; // Source rows and original values next to the current ones
   format: 'csv' | 'xlsx' | 'json';
 }
 